@@ -4,21 +4,75 @@
  * Strudel CLI — terminal interface for Strudel live-coding music.
  *
  * Commands:
- *   play <name> [--version <n>]              Play a saved song
- *   stop                                      Stop playback
+ *   play <name> [--version <n>] [--fade <s>] Play a saved song (crossfade from the current one)
+ *   stop [--fade <s>]                         Stop playback (fade out first)
  *   pause                                     Pause playback
+ *   resume                                    Resume paused playback
+ *   restart                                   Jump back to cycle 0
  *   current                                   Show current playback state
- *   make <name> --code <code>                 Create a new song
+ *   sequence <name> --versions <json> [--loop]  Run a version timeline in the daemon
+ *   sequence --status|--cancel [id]           Inspect or cancel the running sequence
+ *   setlist create|add|remove|show|list|delete  Manage setlists of saved songs
+ *   setlist play|next|prev|status|stop        Play a setlist through the daemon
+ *   tempo [bpm] [--cpm <n>|--cps <n>] [--ramp <s>]  Change tempo live (no new version)
+ *   volume [0-1] [--ramp <s>] [--ceiling <dB>]  Master volume & safety limiter
+ *   mute | unmute                             Silence / restore the master output
+ *   output [webaudio|osc|both] [--host] [--port]  Send haps to SuperDirt over OSC
+ *   watch [--json] [--no-ticks]               Stream daemon activity live
+ *   viz [--mode pianoroll|punchcard|meter]    Full-screen view of the playing pattern
+ *   layer add|remove|list|solo|mute           Stack saved songs as named slots
+ *   make <name> --code <code> | --file <path> Create a new song
  *   update <name> --from <s> --to <s> [--index <n>]  Find & replace in song code
+ *   edit <name>                               Edit latest version in $EDITOR, save & play
+ *   watch-file <path> --song <name>           Hot-reload a song file on every save
  *   detail <name> [--version <n>]             Show song code
+ *   lint <name> [--ver <n>]                   Flag unknown functions, methods and sounds
+ *   log <name> [-n <count>] [--oneline]       Show version history with messages
+ *   diff <name> [vA] [vB] [--stat]            Diff two versions (default: previous vs latest)
+ *   fork <name> <new-name> [--ver <n>]        Start a new song from a version of another
  *   delete <name>                             Delete a saved song
  *   list                                      List all saved songs
+ *   export <name...> [--all] [--out <file>]   Export songs with full history as a bundle
+ *   import <file> [--on-conflict <mode>]      Import a bundle (skip | rename | merge)
+ *   import-url <link> <name>                  Create a song from a strudel.cc link
+ *   share <name> [--ver <n>]                  Print a strudel.cc link for a song
+ *   render <name> --cycles <n> --out <file>   Render a song to a WAV file (offline)
+ *   export-midi <name> --cycles <n> --out <file>  Export notes as a multi-track MIDI file
+ *   events <name> [--from <c>] [--cycles <n>] [--json]  List the events a song produces
+ *   record start [--out <file>] | stop        Record the live output to a WAV file
+ *   samples add|remove|list|offline|clear-cache  Local sample folders & sample cache
  */
 
 import { Command } from 'commander';
-import { C } from './constants.js';
+import { readFile, writeFile, mkdtemp, rm } from 'node:fs/promises';
+import { existsSync, watch } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { tmpdir, userInfo } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
+import { C, DEFAULT_OSC_HOST, DEFAULT_OSC_PORT, VIZ_FRAME_MS } from './constants.js';
 import * as storage from './storage.js';
 import * as client from './client.js';
+import * as samples from './samples.js';
+import { diffLines, diffHunks, diffStat } from './diff.js';
+import { codeToShareUrl, codeFromShareUrl } from './share.js';
+import { createVizRenderer, vizRange, VIZ_MODES, DEFAULT_VIZ_WINDOW } from './viz.js';
+import type {
+  DaemonEvent,
+  HapsResponse,
+  ImportConflict,
+  LayerSlot,
+  LintIssue,
+  MixerState,
+  OutputConfig,
+  SequenceDelayUnit,
+  SequenceJob,
+  SequenceStep,
+  SetlistJob,
+  StepDelay,
+  TimelineJob,
+  VersionMeta,
+  VizMode,
+} from './types.js';
 
 // ── Error Formatting Helpers ──
 
@@ -48,6 +102,19 @@ function formatCodeWithError(code: string, errorLine?: number, errorCol?: number
   console.error(`${C.dim}  └──────────────────────────────────${C.reset}`);
 }
 
+/**
+ * Print validation warnings (unknown functions, methods, sounds and banks).
+ * They don't stop the code from being saved or played.
+ */
+function printWarnings(warnings: LintIssue[] | undefined): void {
+  for (const warning of warnings ?? []) {
+    const fix = warning.fix ? ` ${C.dim}→${C.reset} ${C.green}${warning.fix}${C.reset}` : '';
+    const note = warning.note ? ` ${C.dim}(${warning.note})${C.reset}` : '';
+    const loc = ` ${C.dim}(line ${warning.line}, col ${warning.column})${C.reset}`;
+    console.log(`${C.yellow}⚠${C.reset} ${warning.message}${fix}${note}${loc}`);
+  }
+}
+
 /**
  * Format and display an error message. If the error message contains
  * line/column info, extract it and show the code context.
@@ -88,6 +155,95 @@ function formatError(err: Error, code?: string): void {
   }
 }
 
+/**
+ * Read song code from a file, dropping a trailing newline editors add.
+ */
+async function readCodeFile(path: string): Promise<string> {
+  if (!existsSync(path)) {
+    throw new Error(`File '${path}' not found.`);
+  }
+  const code = (await readFile(path, 'utf-8')).replace(/\r\n/g, '\n').replace(/\n+$/, '');
+  if (!code.trim()) {
+    throw new Error(`File '${path}' is empty.`);
+  }
+  return code;
+}
+
+/**
+ * Version metadata from -m/--author. The author falls back to
+ * $STRUDEL_AUTHOR (set this per agent), then the OS user.
+ */
+function versionMeta(opts: { message?: string; author?: string }): VersionMeta {
+  let author = opts.author ?? process.env.STRUDEL_AUTHOR;
+  if (!author) {
+    try {
+      author = userInfo().username;
+    } catch {
+      // No passwd entry (e.g. some containers) — leave it unset
+    }
+  }
+  return { message: opts.message, author };
+}
+
+/**
+ * Cycles to hold a code swap for: --quantize wins, then $STRUDEL_QUANTIZE, else 0 (immediate).
+ */
+function quantizeCycles(value?: number): number {
+  const q = value ?? Number(process.env.STRUDEL_QUANTIZE || 0);
+  if (!Number.isFinite(q) || q < 0) {
+    throw new Error(`Invalid quantize value: expected a number of cycles >= 0.`);
+  }
+  return q;
+}
+
+/**
+ * Validate a --fade value; 0 (no fade) when omitted.
+ */
+function fadeSeconds(value?: number): number {
+  const fade = value ?? 0;
+  if (!Number.isFinite(fade) || fade < 0) {
+    throw new Error(`Invalid fade value: expected a number of seconds >= 0.`);
+  }
+  return fade;
+}
+
+/**
+ * Validate a version number argument; undefined (latest) when omitted.
+ */
+function songVersion(value?: number): number | undefined {
+  if (value !== undefined && !(Number.isInteger(value) && value >= 1)) {
+    throw new Error(`Invalid version number: must be a positive integer.`);
+  }
+  return value;
+}
+
+/**
+ * Write `out`, then exit once stdout has taken all of it — process.exit()
+ * right after a large console.log can cut off piped output.
+ */
+function writeAndExit(out = ''): void {
+  process.stdout.write(out, () => process.exit(0));
+}
+
+/**
+ * Suffix for "Now playing" lines when a swap was quantized.
+ */
+function swapNote(quantize: number, cycle: number): string {
+  return quantize > 0 ? ` ${C.dim}(at cycle ${cycle})${C.reset}` : '';
+}
+
+/**
+ * "3:07" from seconds.
+ */
+function formatClock(seconds: number): string {
+  const secs = Math.floor(seconds);
+  return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, '0')}`;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
 const program = new Command();
 
 program
@@ -101,15 +257,17 @@ program
   .command('play')
   .description('Start playing a saved song')
   .argument('<name>', 'Song name')
-  .option('--ver <n>', 'Version number (default: latest)', parseInt)
-  .action(async (name: string, opts: { ver?: number }) => {
+  .option('--ver <n>', 'Version number (default: latest)', Number)
+  .option('--fade <seconds>', 'Crossfade from the current song (or fade in) over n seconds', parseFloat)
+  .action(async (name: string, opts: { ver?: number; fade?: number }) => {
     let songCode: string | undefined;
     try {
-      const { code, version } = await storage.getSongCode(name, opts.ver);
+      const fade = fadeSeconds(opts.fade);
+      const { code, version } = await storage.getSongCode(name, songVersion(opts.ver));
       songCode = code;
       console.log(`${C.dim}Starting daemon...${C.reset}`);
 
-      const result = await client.play(code, name, version);
+      const result = await client.play(code, name, version, { fade });
 
       console.log(
         `${C.green}▶${C.reset} ${C.bold}Now playing:${C.reset} ${C.cyan}${result.name}${C.reset} ${C.dim}(v${result.version})${C.reset}`,
@@ -125,9 +283,14 @@ program
 program
   .command('stop')
   .description('Stop playback')
-  .action(async () => {
+  .option('--fade <seconds>', 'Fade out over n seconds before stopping', parseFloat)
+  .action(async (opts: { fade?: number }) => {
     try {
-      await client.stop();
+      const fade = fadeSeconds(opts.fade);
+      if (fade > 0) {
+        console.log(`${C.dim}Fading out over ${fade}s...${C.reset}`);
+      }
+      await client.stop({ fade });
       console.log(`${C.yellow}■${C.reset} Playback stopped.`);
     } catch (err) {
       console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
@@ -150,6 +313,202 @@ program
     }
   });
 
+// ── resume / restart ──
+
+program
+  .command('resume')
+  .description('Resume paused playback where it left off')
+  .action(async () => {
+    try {
+      const result = await client.resume();
+      console.log(`${C.green}▶${C.reset} Resumed at cycle ${result.cycle.toFixed(2)}.`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('restart')
+  .description('Jump back to cycle 0 of the loaded song')
+  .action(async () => {
+    try {
+      await client.restart();
+      console.log(`${C.green}▶${C.reset} Restarted from cycle 0.`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// ── tempo ──
+
+/**
+ * "120 bpm (30 cpm, 0.5 cps)" — bpm assumes 4 beats per cycle, like setcpm(bpm/4).
+ */
+function formatTempo(cps: number): string {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return `${C.bold}${round(cps * 240)} bpm${C.reset} ${C.dim}(${round(cps * 60)} cpm, ${round(cps)} cps)${C.reset}`;
+}
+
+program
+  .command('tempo')
+  .description('Show or change the playing tempo in place (the song code is not changed)')
+  .argument('[bpm]', 'Beats per minute, 4 beats per cycle', parseFloat)
+  .option('--cpm <n>', 'Cycles per minute (as in setcpm)', parseFloat)
+  .option('--cps <n>', 'Cycles per second (as in setcps)', parseFloat)
+  .option('--ramp <seconds>', 'Glide to the new tempo over this many seconds', parseFloat)
+  .action(async (bpm: number | undefined, opts: { cpm?: number; cps?: number; ramp?: number }) => {
+    try {
+      const given = [bpm, opts.cpm, opts.cps].filter((v) => v !== undefined);
+      if (given.length === 0) {
+        const running = await client.isDaemonRunning();
+        const cur = running ? await client.getCurrent() : null;
+        if (!cur || cur.state === 'stopped' || cur.cps == null) {
+          console.log(`${C.dim}No music is playing. Use 'strudel play <name>' to start.${C.reset}`);
+          return;
+        }
+        console.log(`${C.bold}Tempo:${C.reset} ${formatTempo(cur.cps)}`);
+        return;
+      }
+      if (given.length > 1) {
+        console.error(`${C.red}✗${C.reset} Give one of ${C.dim}<bpm>${C.reset}, ${C.dim}--cpm${C.reset} or ${C.dim}--cps${C.reset}.`);
+        process.exit(1);
+      }
+
+      const cps = bpm !== undefined ? bpm / 240 : opts.cpm !== undefined ? opts.cpm / 60 : opts.cps!;
+      if (!Number.isFinite(cps) || cps <= 0) {
+        console.error(`${C.red}✗${C.reset} Tempo must be a positive number.`);
+        process.exit(1);
+      }
+      if (opts.ramp !== undefined && (!Number.isFinite(opts.ramp) || opts.ramp < 0)) {
+        console.error(`${C.red}✗${C.reset} --ramp must be a number of seconds >= 0.`);
+        process.exit(1);
+      }
+
+      const result = await client.setTempo(cps, opts.ramp);
+      const how = result.ramp > 0 ? ` ${C.dim}over ${result.ramp}s${C.reset}` : '';
+      console.log(`${C.green}▶${C.reset} Tempo ${formatTempo(result.from)} → ${formatTempo(result.cps)}${how}`);
+      console.log(`${C.dim}  Live only — the next play/update uses the tempo in the song code.${C.reset}`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// ── volume / mute ──
+
+/**
+ * "80% · limiter -1 dBFS" (plus "muted" when muted).
+ */
+function formatMixer(mixer: MixerState): string {
+  const level = `${C.bold}${Math.round(mixer.volume * 100)}%${C.reset}`;
+  const muted = mixer.muted ? ` ${C.yellow}muted${C.reset}` : '';
+  return `${level}${muted} ${C.dim}· limiter ${mixer.ceiling} dBFS${C.reset}`;
+}
+
+program
+  .command('volume')
+  .description('Show or change the master volume and the safety limiter ceiling')
+  .argument('[level]', 'Master volume from 0 to 1', parseFloat)
+  .option('--ramp <seconds>', 'Glide to the new volume over this many seconds', parseFloat)
+  .option('--ceiling <dBFS>', 'Limiter ceiling in dBFS, <= 0 (default: $STRUDEL_CEILING or -1)', parseFloat)
+  .action(async (level: number | undefined, opts: { ramp?: number; ceiling?: number }) => {
+    try {
+      if (level === undefined && opts.ceiling === undefined) {
+        const running = await client.isDaemonRunning();
+        const cur = running ? await client.getCurrent() : null;
+        if (!cur?.mixer) {
+          console.log(`${C.dim}No music is playing. Use 'strudel play <name>' to start.${C.reset}`);
+          return;
+        }
+        console.log(`${C.bold}Volume:${C.reset} ${formatMixer(cur.mixer)}`);
+        return;
+      }
+      if (level !== undefined && !(level >= 0 && level <= 1)) {
+        console.error(`${C.red}✗${C.reset} Volume must be a number from 0 to 1.`);
+        process.exit(1);
+      }
+      if (opts.ceiling !== undefined && !(opts.ceiling <= 0)) {
+        console.error(`${C.red}✗${C.reset} --ceiling must be a number of dBFS <= 0 (e.g. -1, -6).`);
+        process.exit(1);
+      }
+      if (opts.ramp !== undefined && (!Number.isFinite(opts.ramp) || opts.ramp < 0)) {
+        console.error(`${C.red}✗${C.reset} --ramp must be a number of seconds >= 0.`);
+        process.exit(1);
+      }
+
+      const { mixer } = await client.setMixer({ volume: level, ramp: opts.ramp, ceiling: opts.ceiling });
+      console.log(`${C.green}✓${C.reset} Volume ${formatMixer(mixer)}`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+for (const muted of [true, false]) {
+  program
+    .command(muted ? 'mute' : 'unmute')
+    .description(muted ? 'Silence the master output (playback keeps running)' : 'Restore the master output')
+    .action(async () => {
+      try {
+        const { mixer } = await client.setMixer({ muted });
+        console.log(`${muted ? `${C.yellow}■${C.reset}` : `${C.green}▶${C.reset}`} Volume ${formatMixer(mixer)}`);
+      } catch (err) {
+        console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+        process.exit(1);
+      }
+    });
+}
+
+// ── output ──
+
+/**
+ * "osc → 127.0.0.1:57120", or just "webaudio".
+ */
+function formatOutput(output: OutputConfig): string {
+  const target = output.mode === 'webaudio' ? '' : ` ${C.dim}→${C.reset} ${output.host}:${output.port}`;
+  return `${C.bold}${output.mode}${C.reset}${target}`;
+}
+
+program
+  .command('output')
+  .description('Show or choose where haps go: the built-in synths, OSC /dirt/play (SuperDirt), or both')
+  .argument('[mode]', 'webaudio | osc | both')
+  .option('--host <host>', `OSC host (default: ${DEFAULT_OSC_HOST}, or the current one)`)
+  .option('--port <port>', `OSC UDP port (default: ${DEFAULT_OSC_PORT}, or the current one)`, parseInt)
+  .action(async (mode: string | undefined, opts: { host?: string; port?: number }) => {
+    try {
+      if (mode === undefined) {
+        const running = await client.isDaemonRunning();
+        const cur = running ? await client.getCurrent() : null;
+        if (!cur?.output) {
+          console.log(`${C.bold}Output:${C.reset} ${C.bold}webaudio${C.reset} ${C.dim}(daemon not running)${C.reset}`);
+          return;
+        }
+        console.log(`${C.bold}Output:${C.reset} ${formatOutput(cur.output)}`);
+        return;
+      }
+      if (mode !== 'webaudio' && mode !== 'osc' && mode !== 'both') {
+        console.error(`${C.red}✗${C.reset} Unknown output '${mode}'. Use webaudio, osc or both.`);
+        process.exit(1);
+      }
+      if (opts.port !== undefined && !(Number.isInteger(opts.port) && opts.port >= 1 && opts.port <= 65535)) {
+        console.error(`${C.red}✗${C.reset} --port must be a UDP port from 1 to 65535.`);
+        process.exit(1);
+      }
+
+      const { output } = await client.setOutput({ mode, host: opts.host, port: opts.port });
+      console.log(`${C.green}✓${C.reset} Output ${formatOutput(output)}`);
+      if (output.mode !== 'webaudio') {
+        console.log(`${C.dim}  Volume, mute and recording only apply to the built-in synths.${C.reset}`);
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
 // ── current ──
 
 program
@@ -180,6 +539,56 @@ program
         );
       }
 
+      if (cur.cps != null && cur.state !== 'stopped') {
+        console.log(`  ${C.bold}Tempo:${C.reset}   ${formatTempo(cur.cps)}`);
+      }
+
+      if (cur.mixer && cur.state !== 'stopped') {
+        console.log(`  ${C.bold}Volume:${C.reset}  ${formatMixer(cur.mixer)}`);
+      }
+
+      if (cur.output && cur.output.mode !== 'webaudio') {
+        console.log(`  ${C.bold}Output:${C.reset}  ${formatOutput(cur.output)}`);
+      }
+
+      if (cur.cycle != null && cur.elapsed != null) {
+        const clock = formatClock(cur.elapsed);
+        console.log(
+          `  ${C.bold}Position:${C.reset} cycle ${cur.cycle.toFixed(2)} ${C.dim}(bar ${Math.floor(cur.cycle) + 1}, ${clock} elapsed)${C.reset}`,
+        );
+      }
+
+      if (cur.recording) {
+        console.log(
+          `  ${C.bold}Recording:${C.reset} ${C.red}●${C.reset} ${cur.recording.path} ${C.dim}(${formatClock(cur.recording.seconds)})${C.reset}`,
+        );
+      }
+
+      if (cur.sequence) {
+        const seq = cur.sequence;
+        const next = seq.remaining != null ? `, next in ${formatStepDelay(seq.remaining, seq.steps[seq.step].unit)}` : '';
+        console.log(
+          `  ${C.bold}Sequence:${C.reset} ${seq.id} step ${seq.step + 1}/${seq.steps.length}${next}${seq.loop ? ` ${C.dim}(looping)${C.reset}` : ''}`,
+        );
+      }
+
+      if (cur.setlist) {
+        const set = cur.setlist;
+        const last = !set.loop && set.step === set.steps.length - 1;
+        const next =
+          set.remaining != null
+            ? `, ${last ? 'ends' : 'next'} in ${formatStepDelay(set.remaining, set.steps[set.step].unit)}`
+            : '';
+        console.log(
+          `  ${C.bold}Setlist:${C.reset} ${C.cyan}${set.setlist}${C.reset} song ${set.step + 1}/${set.steps.length}${next}${set.loop ? ` ${C.dim}(looping)${C.reset}` : ''}`,
+        );
+      }
+
+      if (cur.layers && Object.keys(cur.layers).length > 0) {
+        console.log(`  ${C.bold}Layers:${C.reset}`);
+        printLayers(cur.layers);
+      }
+
       if (cur.code) {
         console.log(`  ${C.bold}Code:${C.reset}`);
         console.log(`${C.dim}  ┌──────────────────────────────────${C.reset}`);
@@ -194,104 +603,539 @@ program
     }
   });
 
-// ── make ──
+// ── watch ──
+
+function formatEvent(event: DaemonEvent): string {
+  const time = `${C.dim}${event.at.slice(11, 19)}${C.reset}`;
+  const song = 'name' in event && event.name
+    ? ` ${C.cyan}${event.name}${C.reset}${event.version ? ` ${C.dim}(v${event.version})${C.reset}` : ''}`
+    : '';
+
+  switch (event.type) {
+    case 'state': {
+      const icon =
+        event.state === 'playing'
+          ? `${C.green}▶${C.reset}`
+          : event.state === 'paused'
+            ? `${C.yellow}⏸${C.reset}`
+            : `${C.yellow}■${C.reset}`;
+      return `${time} ${icon} ${C.bold}${event.action}${C.reset}${song}`;
+    }
+    case 'error':
+      return `${time} ${C.red}✗ ${event.action} failed${C.reset}${song}: ${event.error}`;
+    case 'validate': {
+      if (event.valid) return `${time} ${C.green}✓${C.reset} validate: ok`;
+      const loc = event.line != null ? ` ${C.dim}(line ${event.line}, col ${event.column})${C.reset}` : '';
+      return `${time} ${C.red}✗${C.reset} validate: ${event.error}${loc}`;
+    }
+    case 'tick':
+      return `${time} ${C.dim}· cycle ${event.cycle.toFixed(2)}${C.reset}${song}`;
+  }
+}
 
 program
-  .command('make')
-  .description('Create a new song')
-  .argument('<name>', 'Song name')
-  .requiredOption('-c, --code <code>', 'Strudel code for the song')
-  .option('--no-validate', 'Skip code validation')
-  .action(async (name: string, opts: { code: string; validate: boolean }) => {
+  .command('watch')
+  .description('Stream daemon activity (play, evaluate, pause, stop, errors, position) live')
+  .option('--json', 'Print one JSON object per event')
+  .option('--no-ticks', 'Hide periodic position ticks')
+  .action(async (opts: { json?: boolean; ticks: boolean }) => {
     try {
-      // Validate code before saving (unless --no-validate)
-      if (opts.validate !== false) {
-        console.log(`${C.dim}Validating code...${C.reset}`);
-        const result = await client.validate(opts.code);
-        if (!result.valid) {
-          const loc = result.line != null ? ` ${C.dim}(line ${result.line}, col ${result.column})${C.reset}` : '';
-          console.error(`${C.red}✗ Code validation failed${loc}${C.reset}`);
-          console.error(`  ${C.red}${result.error}${C.reset}`);
-          console.error();
-          formatCodeWithError(opts.code, result.line, result.column);
-          console.error();
-          console.error(`${C.dim}Tip: Fix the code and try again, or use --no-validate to skip validation.${C.reset}`);
-          process.exit(1);
-        }
+      if (!opts.json) {
+        console.log(`${C.dim}Watching daemon events (Ctrl+C to exit)...${C.reset}`);
+      }
+      await client.watchEvents((event) => {
+        if (event.type === 'tick' && !opts.ticks) return;
+        console.log(opts.json ? JSON.stringify(event) : formatEvent(event));
+      });
+      if (!opts.json) {
+        console.log(`${C.dim}Daemon closed the event stream.${C.reset}`);
       }
-
-      const version = await storage.makeSong(name, opts.code);
-      console.log(
-        `${C.green}✓${C.reset} Created song ${C.cyan}${C.bold}${name}${C.reset} ${C.dim}(v1, ${version.createdAt})${C.reset}`,
-      );
-      console.log(`${C.dim}  Code: ${opts.code}${C.reset}`);
     } catch (err) {
-      formatError(err as Error);
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
       process.exit(1);
     }
   });
 
-// ── update ──
+// ── viz ──
+
+/** Shown while the daemon is not running */
+const STOPPED: HapsResponse = { ok: true, state: 'stopped', events: [], viz: null };
 
 program
-  .command('update')
-  .description('Find & replace in a song\'s code and auto-play')
-  .argument('<name>', 'Song name')
-  .requiredOption('-f, --from <string>', 'Text to find')
-  .requiredOption('-t, --to <string>', 'Replacement text')
-  .option('-i, --index <n>', 'Occurrence index (0-based) if multiple matches', parseInt)
-  .action(async (name: string, opts: { from: string; to: string; index?: number }) => {
-    let updatedCode: string | undefined;
-    try {
-      const { code, version } = await storage.updateSong(name, opts.from, opts.to, opts.index);
-      updatedCode = code;
+  .command('viz')
+  .description('Full-screen view of the playing pattern: one lane per layer, scrolling past a playhead')
+  .option('--mode <mode>', "pianoroll | punchcard | meter (default: the code's .pianoroll()/.punchcard())")
+  .option('--cycles <n>', 'Cycles across the screen (default: 4)', parseFloat)
+  .action(async (opts: { mode?: string; cycles?: number }) => {
+    if (opts.mode !== undefined && !VIZ_MODES.includes(opts.mode as VizMode)) {
+      console.error(`${C.red}✗${C.reset} Unknown mode '${opts.mode}'. Use ${VIZ_MODES.join(', ')}.`);
+      process.exit(1);
+    }
+    if (opts.cycles !== undefined && !(opts.cycles > 0)) {
+      console.error(`${C.red}✗${C.reset} --cycles must be a positive number.`);
+      process.exit(1);
+    }
+    if (!process.stdout.isTTY) {
+      console.error(`${C.red}✗${C.reset} viz needs a terminal. Use 'strudel events' for plain output.`);
+      process.exit(1);
+    }
 
-      // Validate the updated code before playing
-      console.log(`${C.dim}Validating updated code...${C.reset}`);
-      const validation = await client.validate(code);
-      if (!validation.valid) {
-        const loc = validation.line != null ? ` ${C.dim}(line ${validation.line}, col ${validation.column})${C.reset}` : '';
-        console.error(`${C.red}✗ Updated code has errors${loc}${C.reset}`);
-        console.error(`  ${C.red}${validation.error}${C.reset}`);
-        console.error();
-        formatCodeWithError(code, validation.line, validation.column);
-        console.error();
-        console.error(`${C.yellow}⚠${C.reset} Song saved as v${version} but NOT playing due to errors.`);
-        console.error(`${C.dim}Fix with: strudel update ${name} --from '...' --to '...'${C.reset}`);
-        process.exit(1);
-      }
+    let mode = opts.mode as VizMode | undefined;
+    let cycles = opts.cycles;
+    let running = true;
+    const render = createVizRenderer();
+
+    const restore = () => {
+      process.stdout.write('\x1b[?25h\x1b[?1049l');
+      if (process.stdin.isTTY) process.stdin.setRawMode(false);
+    };
+    const quit = () => {
+      running = false;
+      restore();
+      writeAndExit();
+    };
+    process.on('SIGINT', quit);
+    process.on('SIGTERM', quit);
+
+    // Alternate screen, hidden cursor; keys arrive one by one
+    process.stdout.write('\x1b[?1049h\x1b[?25l');
+    if (process.stdin.isTTY) {
+      process.stdin.setRawMode(true);
+      process.stdin.resume();
+      process.stdin.on('data', (data: Buffer) => {
+        const key = data.toString();
+        if (key === 'q' || key === '\x03') quit();
+        if (key === 'm') mode = VIZ_MODES[(VIZ_MODES.indexOf(mode ?? 'pianoroll') + 1) % VIZ_MODES.length];
+        if (key === '+') cycles = Math.max(1, (cycles ?? DEFAULT_VIZ_WINDOW.cycles) / 2);
+        if (key === '-') cycles = Math.min(64, (cycles ?? DEFAULT_VIZ_WINDOW.cycles) * 2);
+      });
+    }
 
-      console.log(
-        `${C.green}✓${C.reset} Updated ${C.cyan}${name}${C.reset} → ${C.bold}v${version}${C.reset}`,
+    // The playhead moves between polls — ask for the window where it will be
+    let last: { snapshot: HapsResponse; at: number } | null = null;
+    while (running) {
+      const window = {
+        cycles: cycles ?? last?.snapshot.viz?.cycles ?? DEFAULT_VIZ_WINDOW.cycles,
+        playhead: last?.snapshot.viz?.playhead ?? DEFAULT_VIZ_WINDOW.playhead,
+      };
+      const elapsed = last && last.snapshot.state === 'playing' ? (Date.now() - last.at) / 1000 : 0;
+      const expected = (last?.snapshot.cycle ?? 0) + elapsed * (last?.snapshot.cps ?? 0);
+      const range = vizRange(expected, window);
+
+      let snapshot: HapsResponse;
+      try {
+        // Margin on both sides so the window still covers the playhead when it arrives
+        snapshot = (await client.getHaps({ from: range.from - 1, to: range.to + 1 })) ?? STOPPED;
+      } catch {
+        snapshot = STOPPED;
+      }
+      last = { snapshot, at: Date.now() };
+
+      const lines = render(
+        snapshot,
+        mode ?? snapshot.viz?.mode ?? 'pianoroll',
+        window,
+        process.stdout.columns || 80,
+        process.stdout.rows || 24,
       );
-      console.log(`  ${C.dim}${opts.from}${C.reset} → ${C.green}${opts.to}${C.reset}`);
+      process.stdout.write(`\x1b[H${lines.map((line) => `${line}\x1b[K`).join('\n')}\x1b[J`);
+      await new Promise((resolve) => setTimeout(resolve, VIZ_FRAME_MS));
+    }
+  });
 
-      // Auto-play the updated code
-      console.log(`${C.dim}Sending updated code to daemon...${C.reset}`);
-      await client.evaluate(code, name, version);
+// ── layer ──
+
+/**
+ * Print layer slots, one per line, with mute/solo flags.
+ */
+function printLayers(layers: Record<string, LayerSlot>): void {
+  const slots = Object.entries(layers);
+  if (slots.length === 0) {
+    console.log(`${C.dim}  No layers.${C.reset}`);
+    return;
+  }
+  const anySolo = slots.some(([, l]) => l.solo);
+  for (const [slot, layer] of slots) {
+    const silent = layer.muted || (anySolo && !layer.solo);
+    const flags = [layer.solo ? `${C.yellow}solo${C.reset}` : '', layer.muted ? `${C.red}muted${C.reset}` : '']
+      .filter(Boolean)
+      .join(' ');
+    console.log(
+      `  ${silent ? C.dim : C.bold}${slot}${C.reset} → ${C.cyan}${layer.name}${C.reset} ${C.dim}(v${layer.version})${C.reset}${flags ? ` ${flags}` : ''}`,
+    );
+  }
+}
+
+const layerCmd = program
+  .command('layer')
+  .description('Stack saved songs as named playback slots on top of the main song');
+
+layerCmd
+  .command('add')
+  .description('Play a saved song in a named slot (replaces the slot if it exists)')
+  .argument('<slot>', 'Slot name (e.g. drums, bass, pads)')
+  .argument('<song>', 'Song name')
+  .option('--ver <n>', 'Version number (default: latest)', Number)
+  .action(async (slot: string, song: string, opts: { ver?: number }) => {
+    let songCode: string | undefined;
+    try {
+      const { code, version } = await storage.getSongCode(song, songVersion(opts.ver));
+      songCode = code;
+      const result = await client.addLayer(slot, code, song, version);
       console.log(
-        `${C.green}▶${C.reset} ${C.bold}Now playing:${C.reset} ${C.cyan}${name}${C.reset} ${C.dim}(v${version})${C.reset}`,
+        `${C.green}▶${C.reset} Layer ${C.bold}${slot}${C.reset} → ${C.cyan}${song}${C.reset} ${C.dim}(v${version})${C.reset}`,
       );
+      printLayers(result.layers);
     } catch (err) {
-      formatError(err as Error, updatedCode);
+      formatError(err as Error, songCode);
       process.exit(1);
     }
   });
 
-// ── detail ──
-
+layerCmd
+  .command('remove')
+  .description('Remove a layer slot')
+  .argument('<slot>', 'Slot name')
+  .action(async (slot: string) => {
+    try {
+      const result = await client.removeLayer(slot);
+      console.log(`${C.green}✓${C.reset} Removed layer ${C.bold}${slot}${C.reset}.`);
+      if (result.state === 'stopped') {
+        console.log(`${C.yellow}■${C.reset} Nothing left to play — playback stopped.`);
+      } else {
+        printLayers(result.layers);
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+layerCmd
+  .command('list')
+  .description('List layer slots')
+  .action(async () => {
+    try {
+      const running = await client.isDaemonRunning();
+      if (!running) {
+        console.log(`${C.dim}No music is playing. Use 'strudel layer add <slot> <song>' to start.${C.reset}`);
+        return;
+      }
+      const cur = await client.getCurrent();
+      if (cur.name) {
+        console.log(
+          `  ${C.bold}main${C.reset} → ${C.cyan}${cur.name}${C.reset}${cur.version ? ` ${C.dim}(v${cur.version})${C.reset}` : ''}`,
+        );
+      }
+      printLayers(cur.layers ?? {});
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+for (const flag of ['solo', 'mute'] as const) {
+  layerCmd
+    .command(flag)
+    .description(flag === 'solo' ? 'Play only soloed slots' : 'Silence a slot without removing it')
+    .argument('<slot>', 'Slot name')
+    .option('--off', flag === 'solo' ? 'Clear solo' : 'Unmute')
+    .action(async (slot: string, opts: { off?: boolean }) => {
+      try {
+        const result = await client.toggleLayer(flag, slot, !opts.off);
+        const label = flag === 'solo' ? (opts.off ? 'unsoloed' : 'soloed') : opts.off ? 'unmuted' : 'muted';
+        console.log(`${C.green}✓${C.reset} Layer ${C.bold}${slot}${C.reset} ${label}.`);
+        printLayers(result.layers);
+      } catch (err) {
+        console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+        process.exit(1);
+      }
+    });
+}
+
+// ── make ──
+
+program
+  .command('make')
+  .description('Create a new song')
+  .argument('<name>', 'Song name')
+  .option('-c, --code <code>', 'Strudel code for the song')
+  .option('--file <path>', 'Read the song code from a file (multi-line friendly)')
+  .option('-m, --message <text>', 'Describe this version')
+  .option('--author <id>', 'Author or agent id (default: $STRUDEL_AUTHOR or OS user)')
+  .option('--no-validate', 'Skip code validation')
+  .action(async (name: string, opts: { code?: string; file?: string; message?: string; author?: string; validate: boolean }) => {
+    try {
+      if ((opts.code == null) === (opts.file == null)) {
+        console.error(`${C.red}✗${C.reset} Provide exactly one of ${C.dim}--code <code>${C.reset} or ${C.dim}--file <path>${C.reset}.`);
+        process.exit(1);
+      }
+      const code = opts.file != null ? await readCodeFile(opts.file) : opts.code!;
+
+      // Validate code before saving (unless --no-validate)
+      if (opts.validate !== false) {
+        console.log(`${C.dim}Validating code...${C.reset}`);
+        const result = await client.validate(code);
+        if (!result.valid) {
+          const loc = result.line != null ? ` ${C.dim}(line ${result.line}, col ${result.column})${C.reset}` : '';
+          console.error(`${C.red}✗ Code validation failed${loc}${C.reset}`);
+          console.error(`  ${C.red}${result.error}${C.reset}`);
+          console.error();
+          formatCodeWithError(code, result.line, result.column);
+          console.error();
+          console.error(`${C.dim}Tip: Fix the code and try again, or use --no-validate to skip validation.${C.reset}`);
+          process.exit(1);
+        }
+        printWarnings(result.warnings);
+      }
+
+      const version = await storage.makeSong(name, code, versionMeta(opts));
+      console.log(
+        `${C.green}✓${C.reset} Created song ${C.cyan}${C.bold}${name}${C.reset} ${C.dim}(v1, ${version.createdAt})${C.reset}`,
+      );
+      if (code.includes('\n')) {
+        const lines = code.split('\n').length;
+        console.log(`${C.dim}  Code: ${opts.file ? `${opts.file} (${lines} lines)` : `${lines} lines`}${C.reset}`);
+      } else {
+        console.log(`${C.dim}  Code: ${code}${C.reset}`);
+      }
+    } catch (err) {
+      formatError(err as Error);
+      process.exit(1);
+    }
+  });
+
+// ── update ──
+
+program
+  .command('update')
+  .description('Find & replace in a song\'s code and auto-play')
+  .argument('<name>', 'Song name')
+  .requiredOption('-f, --from <string>', 'Text to find')
+  .requiredOption('-t, --to <string>', 'Replacement text')
+  .option('-i, --index <n>', 'Occurrence index (0-based) if multiple matches', parseInt)
+  .option('-m, --message <text>', 'Describe this version')
+  .option('--author <id>', 'Author or agent id (default: $STRUDEL_AUTHOR or OS user)')
+  .option('-q, --quantize <cycles>', 'Swap at the next multiple of n cycles (default: $STRUDEL_QUANTIZE or now)', parseFloat)
+  .action(async (name: string, opts: { from: string; to: string; index?: number; message?: string; author?: string; quantize?: number }) => {
+    let updatedCode: string | undefined;
+    try {
+      const quantize = quantizeCycles(opts.quantize);
+      const { code, version } = await storage.updateSong(name, opts.from, opts.to, opts.index, versionMeta(opts));
+      updatedCode = code;
+
+      // Validate the updated code before playing
+      console.log(`${C.dim}Validating updated code...${C.reset}`);
+      const validation = await client.validate(code);
+      if (!validation.valid) {
+        const loc = validation.line != null ? ` ${C.dim}(line ${validation.line}, col ${validation.column})${C.reset}` : '';
+        console.error(`${C.red}✗ Updated code has errors${loc}${C.reset}`);
+        console.error(`  ${C.red}${validation.error}${C.reset}`);
+        console.error();
+        formatCodeWithError(code, validation.line, validation.column);
+        console.error();
+        console.error(`${C.yellow}⚠${C.reset} Song saved as v${version} but NOT playing due to errors.`);
+        console.error(`${C.dim}Fix with: strudel update ${name} --from '...' --to '...'${C.reset}`);
+        process.exit(1);
+      }
+      printWarnings(validation.warnings);
+
+      console.log(
+        `${C.green}✓${C.reset} Updated ${C.cyan}${name}${C.reset} → ${C.bold}v${version}${C.reset}`,
+      );
+      console.log(`  ${C.dim}${opts.from}${C.reset} → ${C.green}${opts.to}${C.reset}`);
+
+      // Auto-play the updated code
+      console.log(
+        `${C.dim}Sending updated code to daemon${quantize > 0 ? ` (swaps on the next ${quantize}-cycle boundary)` : ''}...${C.reset}`,
+      );
+      const { cycle } = await client.evaluate(code, name, version, { quantize });
+      console.log(
+        `${C.green}▶${C.reset} ${C.bold}Now playing:${C.reset} ${C.cyan}${name}${C.reset} ${C.dim}(v${version})${C.reset}${swapNote(quantize, cycle)}`,
+      );
+    } catch (err) {
+      formatError(err as Error, updatedCode);
+      process.exit(1);
+    }
+  });
+
+// ── edit ──
+
+program
+  .command('edit')
+  .description('Open the latest version in $EDITOR, then save it as a new version and play it')
+  .argument('<name>', 'Song name')
+  .option('-m, --message <text>', 'Describe this version')
+  .option('--author <id>', 'Author or agent id (default: $STRUDEL_AUTHOR or OS user)')
+  .action(async (name: string, opts: { message?: string; author?: string }) => {
+    let editedCode: string | undefined;
+    try {
+      const detail = await storage.detailSong(name);
+      const dir = await mkdtemp(join(tmpdir(), 'strudel-'));
+      const file = join(dir, `${name.replace(/[^\w-]/g, '_')}.js`);
+      await writeFile(file, detail.code + '\n', 'utf-8');
+
+      const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+      // Run through the shell so EDITOR values with arguments ("code --wait") work
+      const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true });
+      editedCode = await readCodeFile(file).finally(() => rm(dir, { recursive: true, force: true }));
+
+      if (result.status !== 0) {
+        console.error(`${C.red}✗${C.reset} Editor exited with status ${result.status}. Nothing saved.`);
+        process.exit(1);
+      }
+      if (editedCode === detail.code) {
+        console.log(`${C.dim}No changes — ${name} stays at v${detail.version}.${C.reset}`);
+        return;
+      }
+
+      const { version } = await storage.appendVersion(name, editedCode, versionMeta(opts));
+
+      console.log(`${C.dim}Validating edited code...${C.reset}`);
+      const validation = await client.validate(editedCode);
+      if (!validation.valid) {
+        const loc = validation.line != null ? ` ${C.dim}(line ${validation.line}, col ${validation.column})${C.reset}` : '';
+        console.error(`${C.red}✗ Edited code has errors${loc}${C.reset}`);
+        console.error(`  ${C.red}${validation.error}${C.reset}`);
+        console.error();
+        formatCodeWithError(editedCode, validation.line, validation.column);
+        console.error();
+        console.error(`${C.yellow}⚠${C.reset} Song saved as v${version} but NOT playing due to errors.`);
+        console.error(`${C.dim}Fix with: strudel edit ${name}${C.reset}`);
+        process.exit(1);
+      }
+      printWarnings(validation.warnings);
+
+      console.log(`${C.green}✓${C.reset} Saved ${C.cyan}${name}${C.reset} → ${C.bold}v${version}${C.reset}`);
+      await client.evaluate(editedCode, name, version);
+      console.log(
+        `${C.green}▶${C.reset} ${C.bold}Now playing:${C.reset} ${C.cyan}${name}${C.reset} ${C.dim}(v${version})${C.reset}`,
+      );
+    } catch (err) {
+      formatError(err as Error, editedCode);
+      process.exit(1);
+    }
+  });
+
+// ── watch-file ──
+
+program
+  .command('watch-file')
+  .description('Hot-reload a song from a file: re-validate on every save and play it when valid')
+  .argument('<path>', 'Song file to watch')
+  .requiredOption('-s, --song <name>', 'Song the file belongs to (created on first valid save)')
+  .option('--no-save', 'Only play changes, do not store them as new versions')
+  .action(async (path: string, opts: { song: string; save: boolean }) => {
+    const file = resolve(path);
+    let lastCode: string | undefined;
+    let running = false;
+    let pending = false;
+
+    const header = () => {
+      // Repaint in place: clear screen, cursor home
+      process.stdout.write('\x1b[2J\x1b[H');
+      console.log(
+        `${C.bold}watching${C.reset} ${C.cyan}${path}${C.reset} → ${C.cyan}${opts.song}${C.reset} ${C.dim}(Ctrl+C to exit)${C.reset}`,
+      );
+      console.log();
+    };
+
+    const reload = async () => {
+      if (running) {
+        pending = true;
+        return;
+      }
+      running = true;
+      try {
+        if (!existsSync(file)) return;
+        const code = await readCodeFile(file);
+        if (code === lastCode) return;
+        lastCode = code;
+
+        const validation = await client.validate(code);
+        header();
+        if (!validation.valid) {
+          const loc = validation.line != null ? ` ${C.dim}(line ${validation.line}, col ${validation.column})${C.reset}` : '';
+          console.error(`${C.red}✗ ${new Date().toLocaleTimeString()} Invalid code${loc}${C.reset}`);
+          console.error(`  ${C.red}${validation.error}${C.reset}`);
+          console.error();
+          formatCodeWithError(code, validation.line, validation.column);
+          console.error();
+          console.error(`${C.dim}Still playing the last valid version.${C.reset}`);
+          return;
+        }
+        printWarnings(validation.warnings);
+
+        let version: number | undefined;
+        if (opts.save) {
+          const exists = (await storage.listSongs()).includes(opts.song);
+          if (!exists) {
+            await storage.makeSong(opts.song, code, versionMeta({}));
+            version = 1;
+          } else {
+            // Don't store a duplicate when the file already matches the latest version
+            const latest = await storage.detailSong(opts.song);
+            version = latest.code === code ? latest.version : (await storage.appendVersion(opts.song, code, versionMeta({}))).version;
+          }
+        }
+        await client.evaluate(code, opts.song, version);
+        console.log(
+          `${C.green}▶${C.reset} ${new Date().toLocaleTimeString()} ${C.bold}Playing${C.reset} ${C.cyan}${opts.song}${C.reset}${version ? ` ${C.dim}(v${version})${C.reset}` : ''}`,
+        );
+      } catch (err) {
+        header();
+        formatError(err as Error, lastCode);
+      } finally {
+        running = false;
+        if (pending) {
+          pending = false;
+          void reload();
+        }
+      }
+    };
+
+    if (!existsSync(file)) {
+      console.error(`${C.red}✗${C.reset} File '${path}' not found.`);
+      process.exit(1);
+    }
+
+    await reload();
+
+    // Watch the directory, not the file: many editors save by writing a temp
+    // file and renaming it over the original, which ends a file-level watch.
+    let debounce: ReturnType<typeof setTimeout> | null = null;
+    watch(dirname(file), (_event, changed) => {
+      if (changed && changed.toString() !== basename(file)) return;
+      if (debounce) clearTimeout(debounce);
+      debounce = setTimeout(() => void reload(), 100);
+    });
+  });
+
+// ── detail ──
+
 program
   .command('detail')
   .description('Show song code and version info')
   .argument('<name>', 'Song name')
-  .option('--ver <n>', 'Version number (default: latest)', parseInt)
+  .option('--ver <n>', 'Version number (default: latest)', Number)
   .action(async (name: string, opts: { ver?: number }) => {
     try {
-      const detail = await storage.detailSong(name, opts.ver);
+      const detail = await storage.detailSong(name, songVersion(opts.ver));
+      const { forkedFrom } = await storage.getSongMeta(name);
 
       console.log(
         `${C.cyan}${C.bold}${name}${C.reset} — v${detail.version}/${detail.totalVersions} ${C.dim}(${detail.createdAt})${C.reset}`,
       );
+      if (detail.author || detail.parent) {
+        const parts = [detail.author && `by ${detail.author}`, detail.parent && `from v${detail.parent}`].filter(Boolean);
+        console.log(`${C.dim}${parts.join(', ')}${C.reset}`);
+      }
+      if (detail.message) {
+        console.log(`  ${detail.message}`);
+      }
+      if (forkedFrom) {
+        console.log(`${C.dim}forked from ${forkedFrom.name} v${forkedFrom.version}${C.reset}`);
+      }
       console.log();
       console.log(`${C.dim}┌──────────────────────────────────${C.reset}`);
       for (const line of detail.code.split('\n')) {
@@ -304,45 +1148,810 @@ program
     }
   });
 
-// ── version-change ──
+// ── lint ──
+
+program
+  .command('lint')
+  .description('Check a song for unknown functions, methods and sounds, with suggested fixes')
+  .argument('<name>', 'Song name')
+  .option('--ver <n>', 'Version number (default: latest)', Number)
+  .action(async (name: string, opts: { ver?: number }) => {
+    let songCode: string | undefined;
+    try {
+      const { code, version } = await storage.getSongCode(name, songVersion(opts.ver));
+      songCode = code;
+      const result = await client.validate(code);
+      const label = `${C.cyan}${name}${C.reset} ${C.dim}(v${version})${C.reset}`;
+
+      if (!result.valid) {
+        // Syntax errors stop the check before the lint runs
+        const loc = result.line != null ? ` ${C.dim}(line ${result.line}, col ${result.column})${C.reset}` : '';
+        console.error(`${C.red}✗${C.reset} ${label} — ${result.error}${loc}`);
+        console.error();
+        formatCodeWithError(code, result.line, result.column);
+        process.exit(1);
+      }
+      if (!result.warnings) {
+        console.log(`${C.green}✓${C.reset} ${label} — no problems found`);
+        return;
+      }
+
+      const count = result.warnings.length;
+      console.error(`${C.red}✗${C.reset} ${label} — ${count} problem${count === 1 ? '' : 's'}`);
+      const lines = code.split('\n');
+      for (const issue of result.warnings) {
+        const fix = issue.fix ? ` ${C.dim}→${C.reset} ${C.green}${issue.fix}${C.reset}` : '';
+        const note = issue.note ? `  ${C.dim}(${issue.note})${C.reset}` : '';
+        console.error();
+        console.error(`  ${C.dim}line ${issue.line}, col ${issue.column}${C.reset}  ${issue.message}${fix}${note}`);
+        console.error(`${C.dim}    │${C.reset} ${lines[issue.line - 1] ?? ''}`);
+        console.error(`${C.dim}    │${C.reset} ${' '.repeat(issue.column)}${C.red}^${C.reset}`);
+      }
+      process.exit(1);
+    } catch (err) {
+      formatError(err as Error, songCode);
+      process.exit(1);
+    }
+  });
+
+// ── log ──
+
+program
+  .command('log')
+  .description('Show the version history of a song, newest first')
+  .argument('<name>', 'Song name')
+  .option('-n, --max-count <n>', 'Show only the last n versions', parseInt)
+  .option('--oneline', 'One line per version')
+  .action(async (name: string, opts: { maxCount?: number; oneline?: boolean }) => {
+    try {
+      let history = await storage.logSong(name);
+      const { forkedFrom } = await storage.getSongMeta(name);
+      const origin = (v: { version: number }) =>
+        v.version === 1 && forkedFrom ? ` ${C.dim}(forked from ${forkedFrom.name} v${forkedFrom.version})${C.reset}` : '';
+      if (opts.maxCount != null) history = history.slice(0, Math.max(0, opts.maxCount));
+
+      for (const v of history) {
+        const firstLine = v.message?.split('\n')[0];
+        if (opts.oneline) {
+          console.log(
+            `${C.yellow}v${v.version}${C.reset} ${firstLine ?? `${C.dim}(no message)${C.reset}`}${v.author ? ` ${C.dim}— ${v.author}${C.reset}` : ''}`,
+          );
+          continue;
+        }
+
+        console.log(
+          `${C.yellow}version ${v.version}${C.reset}${v.parent ? ` ${C.dim}(from v${v.parent})${C.reset}` : ''}${origin(v)}`,
+        );
+        if (v.author) console.log(`Author: ${v.author}`);
+        console.log(`Date:   ${v.createdAt}`);
+        console.log();
+        for (const line of (v.message ?? `${C.dim}(no message)${C.reset}`).split('\n')) {
+          console.log(`    ${line}`);
+        }
+        console.log();
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// ── diff ──
+
+/**
+ * Color a removed/added line pair, emphasizing the span that differs —
+ * most updates change a few characters of one long line.
+ */
+function highlightPair(oldText: string, newText: string): [string, string] {
+  let pre = 0;
+  while (pre < oldText.length && pre < newText.length && oldText[pre] === newText[pre]) pre++;
+  let suf = 0;
+  while (
+    suf < oldText.length - pre &&
+    suf < newText.length - pre &&
+    oldText[oldText.length - 1 - suf] === newText[newText.length - 1 - suf]
+  ) {
+    suf++;
+  }
+  const mark = (text: string, color: string) =>
+    `${color}${text.slice(0, pre)}${C.bold}${text.slice(pre, text.length - suf)}${C.reset}${color}${text.slice(text.length - suf)}${C.reset}`;
+  return [mark(oldText, C.red), mark(newText, C.green)];
+}
+
+program
+  .command('diff')
+  .description('Show a unified diff between two versions of a song')
+  .argument('<name>', 'Song name')
+  .argument('[vA]', 'Old version (default: the one before the latest)', Number)
+  .argument('[vB]', 'New version (default: latest)', Number)
+  .option('--stat', 'Only summarize added/removed lines')
+  .action(async (name: string, vA: number | undefined, vB: number | undefined, opts: { stat?: boolean }) => {
+    try {
+      const { totalVersions } = await storage.detailSong(name);
+      const to = songVersion(vB) ?? totalVersions;
+      const from = songVersion(vA) ?? to - 1;
+      if (from < 1) {
+        console.error(`${C.red}✗${C.reset} ${name} has only one version — nothing to compare.`);
+        process.exit(1);
+      }
+
+      const a = await storage.detailSong(name, from);
+      const b = await storage.detailSong(name, to);
+      const lines = diffLines(a.code, b.code);
+      const { added, removed } = diffStat(lines);
+
+      if (opts.stat) {
+        const bar = `${C.green}${'+'.repeat(added)}${C.reset}${C.red}${'-'.repeat(removed)}${C.reset}`;
+        console.log(` ${name} v${from}..v${to} | ${added + removed} ${bar}`);
+        console.log(
+          ` ${added} insertion${added === 1 ? '' : 's'}(+), ${removed} deletion${removed === 1 ? '' : 's'}(-)`,
+        );
+        return;
+      }
+
+      console.log(`${C.bold}--- ${name} v${from}${C.reset} ${C.dim}(${a.createdAt})${C.reset}`);
+      console.log(`${C.bold}+++ ${name} v${to}${C.reset} ${C.dim}(${b.createdAt})${C.reset}`);
+      const hunks = diffHunks(lines);
+      if (hunks.length === 0) {
+        console.log(`${C.dim}(identical)${C.reset}`);
+        return;
+      }
+
+      for (const hunk of hunks) {
+        console.log(
+          `${C.cyan}@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@${C.reset}`,
+        );
+        for (let k = 0; k < hunk.lines.length; k++) {
+          const line = hunk.lines[k];
+          if (line.op === ' ') {
+            console.log(` ${line.text}`);
+            continue;
+          }
+          // Pair up an equal-sized block of removals and additions for in-line emphasis
+          let end = k;
+          while (end < hunk.lines.length && hunk.lines[end].op === '-') end++;
+          let addEnd = end;
+          while (addEnd < hunk.lines.length && hunk.lines[addEnd].op === '+') addEnd++;
+          const removedLines = hunk.lines.slice(k, end);
+          const addedLines = hunk.lines.slice(end, addEnd);
+
+          if (removedLines.length === addedLines.length) {
+            const pairs = removedLines.map((l, p) => highlightPair(l.text, addedLines[p].text));
+            for (const [oldLine] of pairs) console.log(`${C.red}-${C.reset}${oldLine}`);
+            for (const [, newLine] of pairs) console.log(`${C.green}+${C.reset}${newLine}`);
+          } else {
+            for (const l of removedLines) console.log(`${C.red}-${l.text}${C.reset}`);
+            for (const l of addedLines) console.log(`${C.green}+${l.text}${C.reset}`);
+          }
+          k = addEnd - 1;
+        }
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// ── export / import ──
+
+program
+  .command('export')
+  .description('Export songs with their full version history as a portable JSON bundle')
+  .argument('[names...]', 'Songs to export')
+  .option('--all', 'Export every saved song')
+  .option('-o, --out <file>', 'Bundle file to write (default: stdout)')
+  .action(async (names: string[], opts: { all?: boolean; out?: string }) => {
+    try {
+      if (opts.all && names.length > 0) {
+        console.error(`${C.red}✗${C.reset} Give song names or ${C.dim}--all${C.reset}, not both.`);
+        process.exit(1);
+      }
+      if (!opts.all && names.length === 0) {
+        console.error(`${C.red}✗${C.reset} Name the songs to export, or use ${C.dim}--all${C.reset} for every song.`);
+        process.exit(1);
+      }
+      const bundle = await storage.exportSongs(opts.all ? await storage.listSongs() : names);
+      const json = JSON.stringify(bundle, null, 2) + '\n';
+
+      if (!opts.out) {
+        process.stdout.write(json);
+        return;
+      }
+      await writeFile(opts.out, json, 'utf-8');
+      const versions = bundle.songs.reduce((n, song) => n + song.versions.length, 0);
+      console.log(
+        `${C.green}✓${C.reset} Exported ${bundle.songs.length} song(s), ${versions} version(s) → ${C.bold}${opts.out}${C.reset}`,
+      );
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import')
+  .description('Import songs from a bundle created by `strudel export`')
+  .argument('<file>', 'Bundle file')
+  .option('--on-conflict <mode>', 'When a song name exists: skip, rename or merge', 'skip')
+  .action(async (file: string, opts: { onConflict: string }) => {
+    try {
+      if (!['skip', 'rename', 'merge'].includes(opts.onConflict)) {
+        console.error(`${C.red}✗${C.reset} --on-conflict must be skip, rename or merge.`);
+        process.exit(1);
+      }
+      if (!existsSync(file)) {
+        throw new Error(`File '${file}' not found.`);
+      }
+
+      let data: unknown;
+      try {
+        data = JSON.parse(await readFile(file, 'utf-8'));
+      } catch {
+        throw new Error(`'${file}' is not valid JSON.`);
+      }
+      const results = await storage.importBundle(storage.parseBundle(data), opts.onConflict as ImportConflict);
+
+      for (const r of results) {
+        switch (r.status) {
+          case 'created':
+            console.log(`${C.green}✓${C.reset} ${C.cyan}${r.name}${C.reset} ${C.dim}(${r.added} version(s))${C.reset}`);
+            break;
+          case 'renamed':
+            console.log(
+              `${C.green}✓${C.reset} ${C.cyan}${r.name}${C.reset} → ${C.cyan}${r.as}${C.reset} ${C.dim}(name taken, ${r.added} version(s))${C.reset}`,
+            );
+            break;
+          case 'merged':
+            console.log(`${C.green}✓${C.reset} ${C.cyan}${r.name}${C.reset} ${C.dim}(merged, ${r.added} new version(s))${C.reset}`);
+            break;
+          case 'skipped':
+            console.log(`${C.yellow}⚠${C.reset} ${C.cyan}${r.name}${C.reset} ${C.dim}(exists — skipped)${C.reset}`);
+            break;
+        }
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// ── strudel.cc links ──
+
+program
+  .command('import-url')
+  .description('Create a song from a strudel.cc share link (https://strudel.cc/#...)')
+  .argument('<link>', 'strudel.cc URL')
+  .argument('<name>', 'Song name')
+  .option('-m, --message <text>', 'Describe this version (default: the source link)')
+  .option('--author <id>', 'Author or agent id (default: $STRUDEL_AUTHOR or OS user)')
+  .action(async (link: string, name: string, opts: { message?: string; author?: string }) => {
+    try {
+      const code = codeFromShareUrl(link);
+      const meta = versionMeta({ ...opts, message: opts.message ?? `Imported from ${link.slice(0, 60)}${link.length > 60 ? '…' : ''}` });
+      const version = await storage.makeSong(name, code, meta);
+      console.log(
+        `${C.green}✓${C.reset} Created song ${C.cyan}${C.bold}${name}${C.reset} ${C.dim}(v1, ${version.createdAt})${C.reset}`,
+      );
+      console.log(`${C.dim}┌──────────────────────────────────${C.reset}`);
+      for (const line of code.split('\n')) {
+        console.log(`${C.dim}│${C.reset} ${line}`);
+      }
+      console.log(`${C.dim}└──────────────────────────────────${C.reset}`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('share')
+  .description('Print a strudel.cc link that opens the song in the web REPL')
+  .argument('<name>', 'Song name')
+  .option('--ver <n>', 'Version number (default: latest)', Number)
+  .action(async (name: string, opts: { ver?: number }) => {
+    try {
+      const { code } = await storage.getSongCode(name, songVersion(opts.ver));
+      // Plain URL on stdout so it can be piped or copied
+      console.log(codeToShareUrl(code));
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// ── render ──
+
+program
+  .command('render')
+  .description('Render a song version to a WAV file offline (no daemon, no sound card)')
+  .argument('<name>', 'Song name')
+  .option('--ver <n>', 'Version number (default: latest)', Number)
+  .requiredOption('--cycles <n>', 'Number of cycles to render', parseFloat)
+  .requiredOption('-o, --out <file>', 'Output WAV file')
+  .option('--bit-depth <n>', 'Bits per sample: 16 or 24', parseInt, 16)
+  .option('--sample-rate <n>', 'Sample rate in Hz', parseInt, 44100)
+  .action(
+    async (
+      name: string,
+      opts: { ver?: number; cycles: number; out: string; bitDepth: number; sampleRate: number },
+    ) => {
+      if (isNaN(opts.cycles) || opts.cycles <= 0) {
+        console.error(`${C.red}✗${C.reset} --cycles must be a positive number.`);
+        process.exit(1);
+      }
+      if (opts.bitDepth !== 16 && opts.bitDepth !== 24) {
+        console.error(`${C.red}✗${C.reset} --bit-depth must be 16 or 24.`);
+        process.exit(1);
+      }
+      if (!Number.isInteger(opts.sampleRate) || opts.sampleRate < 8000) {
+        console.error(`${C.red}✗${C.reset} --sample-rate must be an integer >= 8000.`);
+        process.exit(1);
+      }
+
+      let songCode: string | undefined;
+      try {
+        const { code, version } = await storage.getSongCode(name, songVersion(opts.ver));
+        songCode = code;
+        console.log(`${C.dim}Rendering ${name} v${version} (${opts.cycles} cycles)...${C.reset}`);
+
+        // Loaded lazily — pulls in the whole Strudel/WebAudio stack
+        const { renderSong } = await import('./render.js');
+        const result = await renderSong(code, {
+          cycles: opts.cycles,
+          sampleRate: opts.sampleRate,
+          bitDepth: opts.bitDepth,
+        });
+        await writeFile(opts.out, result.wav);
+
+        console.log(
+          `${C.green}✓${C.reset} Rendered ${C.cyan}${name}${C.reset} ${C.dim}(v${version})${C.reset} → ${C.bold}${opts.out}${C.reset}`,
+        );
+        console.log(
+          `${C.dim}  ${result.seconds.toFixed(2)}s · ${opts.cycles} cycles @ ${(result.cps * 60).toFixed(2)} cpm · ${opts.bitDepth}-bit ${opts.sampleRate} Hz · ${result.events} events${C.reset}`,
+        );
+        // Sample loaders keep sockets alive — exit explicitly once the file is written
+        writeAndExit();
+      } catch (err) {
+        formatError(err as Error, songCode);
+        process.exit(1);
+      }
+    },
+  );
+
+// ── export-midi ──
+
+program
+  .command('export-midi')
+  .description("Export a song's notes as a multi-track MIDI file (one track per $: layer)")
+  .argument('<name>', 'Song name')
+  .option('--ver <n>', 'Version number (default: latest)', Number)
+  .requiredOption('--cycles <n>', 'Number of cycles to export', parseFloat)
+  .requiredOption('-o, --out <file>', 'Output MIDI file')
+  .action(async (name: string, opts: { ver?: number; cycles: number; out: string }) => {
+    if (isNaN(opts.cycles) || opts.cycles <= 0) {
+      console.error(`${C.red}✗${C.reset} --cycles must be a positive number.`);
+      process.exit(1);
+    }
+
+    let songCode: string | undefined;
+    try {
+      const { code, version } = await storage.getSongCode(name, songVersion(opts.ver));
+      songCode = code;
+
+      // Loaded lazily — pulls in the whole Strudel stack
+      const { querySong } = await import('./events.js');
+      const { encodeMidi } = await import('./midi.js');
+      const song = await querySong(code, { cycles: opts.cycles });
+      const result = encodeMidi(song, { name });
+      await writeFile(opts.out, result.smf);
+
+      console.log(
+        `${C.green}✓${C.reset} Exported ${C.cyan}${name}${C.reset} ${C.dim}(v${version})${C.reset} → ${C.bold}${opts.out}${C.reset}`,
+      );
+      console.log(
+        `${C.dim}  ${opts.cycles} cycles @ ${(song.cps * 240).toFixed(2)} bpm · ${result.tracks.length} track(s)${C.reset}`,
+      );
+      for (const track of result.tracks) {
+        console.log(`  ${C.cyan}${track.layer ?? name}${C.reset} ${C.dim}${track.notes} notes${C.reset}`);
+      }
+      if (result.skipped > 0) {
+        console.log(`${C.yellow}  ${result.skipped} event(s) skipped: no note and not a known drum sound.${C.reset}`);
+      }
+      // Sample loaders keep sockets alive — exit explicitly once the file is written
+      writeAndExit();
+    } catch (err) {
+      formatError(err as Error, songCode);
+      process.exit(1);
+    }
+  });
+
+// ── events ──
+
+/**
+ * Cycle positions as short decimals: 0.25, 1.333, 2.
+ */
+function formatCycle(cycle: number): string {
+  return String(Number(cycle.toFixed(3)));
+}
+
+program
+  .command('events')
+  .description('List the events (haps) a song produces, without playing anything')
+  .argument('<name>', 'Song name')
+  .option('--ver <n>', 'Version number (default: latest)', Number)
+  .option('--from <cycle>', 'First cycle to list', parseFloat, 0)
+  .option('--cycles <n>', 'Number of cycles to list', parseFloat, 1)
+  .option('--json', 'Print the events as JSON')
+  .action(async (name: string, opts: { ver?: number; from: number; cycles: number; json?: boolean }) => {
+    if (!Number.isFinite(opts.from) || opts.from < 0) {
+      console.error(`${C.red}✗${C.reset} --from must be a cycle number >= 0.`);
+      process.exit(1);
+    }
+    if (isNaN(opts.cycles) || opts.cycles <= 0) {
+      console.error(`${C.red}✗${C.reset} --cycles must be a positive number.`);
+      process.exit(1);
+    }
+
+    let songCode: string | undefined;
+    try {
+      const { code, version } = await storage.getSongCode(name, songVersion(opts.ver));
+      songCode = code;
+
+      // Loaded lazily — pulls in the whole Strudel stack
+      const { querySong } = await import('./events.js');
+      const song = await querySong(code, { from: opts.from, cycles: opts.cycles });
+
+      if (opts.json) {
+        const { cps, events } = song;
+        const out = JSON.stringify({ name, version, cps, from: opts.from, cycles: opts.cycles, events }, null, 2);
+        writeAndExit(`${out}\n`);
+        return;
+      }
+
+      const range = `cycles ${formatCycle(opts.from)}–${formatCycle(opts.from + opts.cycles)}`;
+      console.log(
+        `${C.cyan}${name}${C.reset} ${C.dim}(v${version}) · ${range} · ${song.events.length} events · ${formatTempo(song.cps)}${C.reset}`,
+      );
+      if (song.events.length === 0) {
+        console.log(`${C.dim}No events in ${range}.${C.reset}`);
+        writeAndExit();
+        return;
+      }
+
+      // Only show the layer column when the code uses $: / name: labels
+      const labelled = song.layers.some((layer) => layer !== null);
+      const shown = new Set(['s', 'note', 'gain']);
+      const rows = song.events.map((e) => [
+        formatCycle(e.begin),
+        formatCycle(e.end),
+        ...(labelled ? [e.layer ?? ''] : []),
+        String(e.value.s ?? ''),
+        String(e.value.note ?? ''),
+        e.value.gain != null ? String(e.value.gain) : '',
+        Object.entries(e.value)
+          .filter(([key]) => !shown.has(key))
+          .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`)
+          .join(' '),
+      ]);
+      const header = ['begin', 'end', ...(labelled ? ['layer'] : []), 'sound', 'note', 'gain', 'controls'];
+      const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+      const line = (cells: string[]) =>
+        cells
+          .map((cell, i) => (i === cells.length - 1 ? cell : cell.padEnd(widths[i])))
+          .join('  ')
+          .trimEnd();
+
+      console.log(`${C.bold}${line(header)}${C.reset}`);
+      for (const row of rows) {
+        console.log(line(row));
+      }
+      // Sample loaders keep sockets alive — exit explicitly once printed
+      writeAndExit();
+    } catch (err) {
+      formatError(err as Error, songCode);
+      process.exit(1);
+    }
+  });
+
+// ── version-change ──
+
+program
+  .command('version-change')
+  .description('Roll back to a previous version as a smooth update (no stop/start)')
+  .argument('<version>', 'Version number to restore', parseInt)
+  .option('-n, --name <name>', 'Song name (default: currently playing song)')
+  .option('-q, --quantize <cycles>', 'Swap at the next multiple of n cycles (default: $STRUDEL_QUANTIZE or now)', parseFloat)
+  .option('--fade <seconds>', 'Crossfade into the restored version over n seconds', parseFloat)
+  .action(async (version: number, opts: { name?: string; quantize?: number; fade?: number }) => {
+    try {
+      const quantize = quantizeCycles(opts.quantize);
+      const fade = fadeSeconds(opts.fade);
+      if (isNaN(version) || !Number.isInteger(version) || version < 1) {
+        console.error(`${C.red}✗${C.reset} Invalid version number: must be a positive integer.`);
+        process.exit(1);
+      }
+
+      let songName = opts.name;
+
+      if (!songName) {
+        const running = await client.isDaemonRunning();
+        if (!running) {
+          console.error(
+            `${C.red}✗${C.reset} No song specified and daemon is not running. Use ${C.dim}--name <song>${C.reset} or start playing first.`,
+          );
+          process.exit(1);
+        }
+        const cur = await client.getCurrent();
+        if (!cur.name) {
+          console.error(
+            `${C.red}✗${C.reset} No song is currently loaded. Use ${C.dim}--name <song>${C.reset} to specify one.`,
+          );
+          process.exit(1);
+        }
+        songName = cur.name;
+      }
+
+      const { code } = await storage.detailSong(songName, version);
+
+      if (quantize > 0) {
+        console.log(`${C.dim}Waiting for the next ${quantize}-cycle boundary...${C.reset}`);
+      }
+      const { cycle } = await client.evaluate(code, songName, version, { quantize, fade });
+      console.log(
+        `${C.green}▶${C.reset} ${C.bold}Now playing:${C.reset} ${C.cyan}${songName}${C.reset} ${C.dim}(v${version})${C.reset} ${C.dim}(history unchanged)${C.reset}${swapNote(quantize, cycle)}`,
+      );
+    } catch (err) {
+      formatError(err as Error);
+      process.exit(1);
+    }
+  });
+
+// ── sequence ──
+
+/**
+ * Parse a step delay: a number of seconds, or a string like "8", "8s" or "4c" (cycles).
+ */
+function parseStepDelay(value: unknown): { delay: number; unit: SequenceDelayUnit } | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? { delay: value, unit: 'seconds' } : null;
+  }
+  const match = typeof value === 'string' ? /^\s*(\d+(?:\.\d+)?)\s*(s|c)?\s*$/.exec(value) : null;
+  if (!match) return null;
+  return { delay: parseFloat(match[1]), unit: match[2] === 'c' ? 'cycles' : 'seconds' };
+}
+
+function formatStepDelay(delay: number, unit: SequenceDelayUnit): string {
+  const n = Number.isInteger(delay) ? String(delay) : delay.toFixed(1);
+  return unit === 'cycles' ? `${n} cycle${delay === 1 ? '' : 's'}` : `${n}s`;
+}
+
+/**
+ * Print a sequence or setlist job: header line plus one line per step, marking the active one.
+ */
+function printTimeline<S extends StepDelay>(
+  job: TimelineJob<S>,
+  title: string,
+  describe: (step: S, active: boolean) => string,
+): void {
+  const icon =
+    job.status === 'running'
+      ? `${C.green}▶${C.reset}`
+      : job.status === 'done'
+        ? `${C.green}✓${C.reset}`
+        : job.status === 'failed'
+          ? `${C.red}✗${C.reset}`
+          : `${C.yellow}■${C.reset}`;
+  const pass = job.loop ? ` ${C.dim}(looping, pass ${job.pass + 1})${C.reset}` : '';
+  console.log(`${icon} ${title} — ${job.status}${pass}`);
+  if (job.error) {
+    console.log(`  ${C.dim}${job.error}${C.reset}`);
+  }
+
+  job.steps.forEach((step, i) => {
+    const active = i === job.step && job.status === 'running';
+    const marker = active ? `${C.green}▶${C.reset}` : ' ';
+    let line = `  ${marker} ${C.dim}[${i + 1}/${job.steps.length}]${C.reset} ${describe(step, active)} for ${formatStepDelay(step.delay, step.unit)}`;
+    if (active && job.remaining != null) {
+      const last = !job.loop && i === job.steps.length - 1;
+      line += `, ${last ? 'ends' : 'next'} in ${formatStepDelay(job.remaining, step.unit)}`;
+    }
+    console.log(line);
+  });
+}
+
+function printSequence(job: SequenceJob): void {
+  printTimeline(
+    job,
+    `${C.bold}Sequence ${job.id}:${C.reset} ${C.cyan}${job.name}${C.reset}`,
+    (step, active) =>
+      `v${step.version}${active && job.version != null ? ` ${C.dim}(playing as v${job.version})${C.reset}` : ''}`,
+  );
+}
+
+/**
+ * Print the running sequence (or the last one to finish), or job `id`.
+ */
+async function showSequence(id?: string): Promise<void> {
+  const status = await client.getSequence();
+  if (!status?.job || (id && status.job.id !== id)) {
+    console.log(`${C.dim}${id ? `Sequence ${id} not found.` : 'No sequence has run.'}${C.reset}`);
+    return;
+  }
+  printSequence(status.job);
+}
+
+/**
+ * Stop advancing the running sequence (only job `id`, if given); the current step keeps playing.
+ */
+async function cancelSequence(id?: string): Promise<void> {
+  const { job } = await client.cancelSequence(id);
+  console.log(
+    `${C.yellow}■${C.reset} Sequence ${job.id} cancelled at step ${job.step + 1}/${job.steps.length} ${C.dim}(v${job.version} keeps playing)${C.reset}`,
+  );
+}
 
 program
-  .command('version-change')
-  .description('Roll back to a previous version as a smooth update (no stop/start)')
-  .argument('<version>', 'Version number to restore', parseInt)
-  .option('-n, --name <name>', 'Song name (default: currently playing song)')
-  .action(async (version: number, opts: { name?: string }) => {
-    try {
-      if (isNaN(version) || !Number.isInteger(version) || version < 1) {
-        console.error(`${C.red}✗${C.reset} Invalid version number: must be a positive integer.`);
+  .command('sequence')
+  .description('Chain historical versions of a song; the daemon plays the timeline (--status | --cancel to manage it)')
+  .argument('[name]', 'Song name')
+  .option('--versions <json>', 'JSON array of [version, delay] pairs; delay in seconds, or "4c" for cycles')
+  .option('--loop', 'Start over after the last step (until cancelled)')
+  .option('-m, --message <text>', 'Message stored on each promoted version')
+  .option('--author <id>', 'Author or agent id (default: $STRUDEL_AUTHOR or OS user)')
+  .option('-q, --quantize <cycles>', 'Land each step on a multiple of n cycles (default: $STRUDEL_QUANTIZE or now)', parseFloat)
+  .option('--fade <seconds>', 'Crossfade into each step over n seconds', parseFloat)
+  .option('--status [id]', 'Show the running sequence (or the last one to finish), or job <id>')
+  .option('--cancel [id]', 'Stop advancing the running sequence (the current step keeps playing)')
+  .action(
+    async (
+      name: string | undefined,
+      opts: {
+        versions?: string;
+        loop?: boolean;
+        message?: string;
+        author?: string;
+        quantize?: number;
+        fade?: number;
+        status?: string | boolean;
+        cancel?: string | boolean;
+      },
+    ) => {
+      if (opts.status !== undefined || opts.cancel !== undefined) {
+        try {
+          if (opts.status !== undefined) {
+            await showSequence(typeof opts.status === 'string' ? opts.status : undefined);
+          } else {
+            await cancelSequence(typeof opts.cancel === 'string' ? opts.cancel : undefined);
+          }
+        } catch (err) {
+          console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+          process.exit(1);
+        }
+        return;
+      }
+      if (!name) {
+        console.error(
+          `${C.red}✗${C.reset} Missing song name. Example: ${C.dim}strudel sequence my-song --versions '[[1,8],[3,12]]'${C.reset}`,
+        );
+        process.exit(1);
+      }
+      // Not a required option: --status / --cancel don't take it
+      if (!opts.versions) {
+        console.error(
+          `${C.red}✗${C.reset} Missing --versions. Example: ${C.dim}strudel sequence ${name} --versions '[[1,8],[3,12]]'${C.reset}`,
+        );
         process.exit(1);
       }
 
-      let songName = opts.name;
+      // Parse JSON
+      let items: unknown;
+      try {
+        items = JSON.parse(opts.versions);
+      } catch {
+        console.error(
+          `${C.red}✗${C.reset} Invalid JSON for --versions. Expected format: ${C.dim}[[version, delay], ...]${C.reset}`,
+        );
+        console.error(`${C.dim}  Example: '[[1,8],[3,12],[2,6]]' or '[[1,"4c"],[3,"8c"]]'${C.reset}`);
+        process.exit(1);
+      }
 
-      if (!songName) {
-        const running = await client.isDaemonRunning();
-        if (!running) {
+      // Validate structure
+      if (!Array.isArray(items) || items.length === 0) {
+        console.error(`${C.red}✗${C.reset} --versions must be a non-empty JSON array.`);
+        process.exit(1);
+      }
+
+      const steps: SequenceStep[] = [];
+      for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (!Array.isArray(item) || item.length !== 2 || typeof item[0] !== 'number') {
           console.error(
-            `${C.red}✗${C.reset} No song specified and daemon is not running. Use ${C.dim}--name <song>${C.reset} or start playing first.`,
+            `${C.red}✗${C.reset} Invalid entry at index ${i}: each item must be ${C.dim}[version, delay]${C.reset}.`,
           );
           process.exit(1);
         }
-        const cur = await client.getCurrent();
-        if (!cur.name) {
+        const [ver, rawDelay] = item as [number, unknown];
+        if (!Number.isInteger(ver) || ver < 1) {
           console.error(
-            `${C.red}✗${C.reset} No song is currently loaded. Use ${C.dim}--name <song>${C.reset} to specify one.`,
+            `${C.red}✗${C.reset} Invalid version at index ${i}: must be a positive integer, got ${ver}.`,
           );
           process.exit(1);
         }
-        songName = cur.name;
+        const delay = parseStepDelay(rawDelay);
+        if (!delay) {
+          console.error(
+            `${C.red}✗${C.reset} Invalid delay at index ${i}: expected seconds >= 0 or a string like "8s" / "4c", got ${JSON.stringify(rawDelay)}.`,
+          );
+          process.exit(1);
+        }
+        steps.push({ version: ver, ...delay });
       }
 
-      const { code } = await storage.detailSong(songName, version);
+      try {
+        const quantize = quantizeCycles(opts.quantize);
+        const fade = fadeSeconds(opts.fade);
+
+        // Check every version up front — later steps run in the daemon, out of sight
+        for (const version of new Set(steps.map((s) => s.version))) {
+          await storage.detailSong(name, version);
+        }
+
+        const { job } = await client.startSequence({
+          name,
+          steps,
+          loop: opts.loop === true,
+          quantize,
+          fade,
+          meta: versionMeta(opts),
+        });
+
+        printSequence(job);
+        console.log(
+          `${C.dim}  Runs in the daemon — check with 'strudel sequence --status', stop with 'strudel sequence --cancel'.${C.reset}`,
+        );
+      } catch (err) {
+        formatError(err as Error);
+        process.exit(1);
+      }
+    },
+  );
 
-      await client.evaluate(code, songName, version);
+// ── setlist ──
+
+/**
+ * Split a `song[@ver]` reference.
+ */
+function parseSongRef(ref: string): { song: string; version?: number } {
+  const at = ref.lastIndexOf('@');
+  if (at <= 0) return { song: ref };
+  const version = Number(ref.slice(at + 1));
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid version in '${ref}': expected <song>@<positive integer>.`);
+  }
+  return { song: ref.slice(0, at), version };
+}
+
+function printSetlistJob(job: SetlistJob): void {
+  printTimeline(
+    job,
+    `${C.bold}Setlist${C.reset} ${C.cyan}${job.setlist}${C.reset}`,
+    (step) => `${C.cyan}${step.song}${C.reset} ${C.dim}(v${step.version})${C.reset}`,
+  );
+}
+
+const setlistCmd = program
+  .command('setlist')
+  .description('Queue saved songs into a program the daemon plays through');
+
+setlistCmd
+  .command('create')
+  .description('Create an empty setlist')
+  .argument('<name>', 'Setlist name')
+  .action(async (name: string) => {
+    try {
+      await storage.createSetlist(name);
       console.log(
-        `${C.green}▶${C.reset} ${C.bold}Now playing:${C.reset} ${C.cyan}${songName}${C.reset} ${C.dim}(v${version})${C.reset} ${C.dim}(history unchanged)${C.reset}`,
+        `${C.green}✓${C.reset} Created setlist ${C.cyan}${name}${C.reset}. Add songs with ${C.dim}strudel setlist add ${name} <song> --for <duration>${C.reset}`,
       );
     } catch (err) {
       formatError(err as Error);
@@ -350,83 +1959,149 @@ program
     }
   });
 
-// ── sequence ──
-
-program
-  .command('sequence')
-  .description('Chain specific historical versions of a song with per-step delays')
-  .argument('<name>', 'Song name')
-  .requiredOption('--versions <json>', 'JSON array of [version, delaySec] pairs')
-  .action(async (name: string, opts: { versions: string }) => {
-    // Parse JSON
-    let steps: unknown;
+setlistCmd
+  .command('add')
+  .description('Append a song to a setlist')
+  .argument('<name>', 'Setlist name')
+  .argument('<song>', 'Song name, optionally pinned to a version: <song>@<ver> (default: latest at play time)')
+  .requiredOption('--for <duration>', 'How long it plays: seconds ("90", "90s") or cycles ("32c")')
+  .option('--at <position>', 'Insert at this 1-based position instead of appending', parseInt)
+  .action(async (name: string, ref: string, opts: { for: string; at?: number }) => {
     try {
-      steps = JSON.parse(opts.versions);
-    } catch {
-      console.error(
-        `${C.red}✗${C.reset} Invalid JSON for --versions. Expected format: ${C.dim}[[version, delaySec], ...]${C.reset}`,
+      const duration = parseStepDelay(opts.for);
+      if (!duration) {
+        console.error(
+          `${C.red}✗${C.reset} Invalid --for value '${opts.for}': use seconds ("90", "90s") or cycles ("32c").`,
+        );
+        process.exit(1);
+      }
+      const { song, version } = parseSongRef(ref);
+      const setlist = await storage.addToSetlist(name, { song, version, ...duration }, opts.at);
+      const position = opts.at ?? setlist.entries.length;
+      console.log(
+        `${C.green}✓${C.reset} ${C.cyan}${song}${C.reset}${version ? ` ${C.dim}(v${version})${C.reset}` : ''} added to ${C.cyan}${name}${C.reset} at #${position} for ${formatStepDelay(duration.delay, duration.unit)}.`,
       );
-      console.error(`${C.dim}  Example: '[[1,8],[3,12],[2,6]]'${C.reset}`);
+    } catch (err) {
+      formatError(err as Error);
       process.exit(1);
     }
+  });
 
-    // Validate structure
-    if (!Array.isArray(steps) || steps.length === 0) {
-      console.error(`${C.red}✗${C.reset} --versions must be a non-empty JSON array.`);
+setlistCmd
+  .command('remove')
+  .description('Remove the song at a position from a setlist')
+  .argument('<name>', 'Setlist name')
+  .argument('<position>', '1-based position (see setlist show)', parseInt)
+  .action(async (name: string, position: number) => {
+    try {
+      const { removed } = await storage.removeFromSetlist(name, position);
+      console.log(
+        `${C.green}✓${C.reset} Removed #${position} (${C.cyan}${removed.song}${C.reset}) from ${C.cyan}${name}${C.reset}.`,
+      );
+    } catch (err) {
+      formatError(err as Error);
       process.exit(1);
     }
+  });
 
-    for (let i = 0; i < steps.length; i++) {
-      const item = steps[i];
-      if (
-        !Array.isArray(item) ||
-        item.length !== 2 ||
-        typeof item[0] !== 'number' ||
-        typeof item[1] !== 'number'
-      ) {
-        console.error(
-          `${C.red}✗${C.reset} Invalid entry at index ${i}: each item must be ${C.dim}[version, delaySec]${C.reset} (two numbers).`,
-        );
-        process.exit(1);
+setlistCmd
+  .command('show')
+  .description('Show the songs in a setlist')
+  .argument('<name>', 'Setlist name')
+  .action(async (name: string) => {
+    try {
+      const setlist = await storage.getSetlist(name);
+      console.log(`${C.bold}${setlist.name}${C.reset} ${C.dim}(${setlist.entries.length} song(s))${C.reset}`);
+      if (setlist.entries.length === 0) {
+        console.log(`${C.dim}  Empty. Use 'strudel setlist add ${name} <song> --for <duration>'.${C.reset}`);
+        return;
       }
-      const [ver, delay] = item as [number, number];
-      if (!Number.isInteger(ver) || ver < 1) {
-        console.error(
-          `${C.red}✗${C.reset} Invalid version at index ${i}: must be a positive integer, got ${ver}.`,
+      setlist.entries.forEach((entry, i) => {
+        const version = entry.version ? `v${entry.version}` : 'latest';
+        console.log(
+          `  ${C.dim}${String(i + 1).padStart(2)}.${C.reset} ${C.cyan}${entry.song}${C.reset} ${C.dim}(${version})${C.reset} for ${formatStepDelay(entry.delay, entry.unit)}`,
         );
-        process.exit(1);
+      });
+    } catch (err) {
+      formatError(err as Error);
+      process.exit(1);
+    }
+  });
+
+setlistCmd
+  .command('list')
+  .description('List saved setlists')
+  .action(async () => {
+    try {
+      const setlists = await storage.listSetlists();
+      if (setlists.length === 0) {
+        console.log(`${C.dim}No setlists yet. Use 'strudel setlist create <name>' to create one.${C.reset}`);
+        return;
       }
-      if (delay < 0) {
-        console.error(
-          `${C.red}✗${C.reset} Invalid delay at index ${i}: must be >= 0, got ${delay}.`,
-        );
-        process.exit(1);
+      for (const setlist of setlists) {
+        console.log(`  ${C.cyan}${setlist.name}${C.reset} ${C.dim}(${setlist.entries.length} song(s))${C.reset}`);
       }
+    } catch (err) {
+      formatError(err as Error);
+      process.exit(1);
     }
+  });
 
-    const validated = steps as [number, number][];
-    const total = validated.length;
+setlistCmd
+  .command('delete')
+  .description('Delete a setlist (the songs are kept)')
+  .argument('<name>', 'Setlist name')
+  .action(async (name: string) => {
+    try {
+      await storage.deleteSetlist(name);
+      console.log(`${C.green}✓${C.reset} Deleted setlist ${C.cyan}${name}${C.reset}.`);
+    } catch (err) {
+      formatError(err as Error);
+      process.exit(1);
+    }
+  });
 
+setlistCmd
+  .command('play')
+  .description('Play a setlist; the daemon advances through the songs and stops after the last one')
+  .argument('<name>', 'Setlist name')
+  .option('--from <position>', 'Start at this 1-based position', parseInt)
+  .option('--loop', 'Start over after the last song (until stopped)')
+  .option('--fade <seconds>', 'Crossfade between songs (and fade out at the end) over n seconds', parseFloat)
+  .action(async (name: string, opts: { from?: number; loop?: boolean; fade?: number }) => {
     try {
-      for (let i = 0; i < total; i++) {
-        const [ver, delay] = validated[i];
-        const { code, newVersion } = await storage.promoteVersion(name, ver);
-        await client.evaluate(code, name, newVersion);
+      const fade = fadeSeconds(opts.fade);
+      const setlist = await storage.getSetlist(name);
+      if (setlist.entries.length === 0) {
+        console.error(
+          `${C.red}✗${C.reset} Setlist '${name}' is empty. Use 'strudel setlist add ${name} <song> --for <duration>'.`,
+        );
+        process.exit(1);
+      }
+      const from = opts.from ?? 1;
+      if (!Number.isInteger(from) || from < 1 || from > setlist.entries.length) {
+        console.error(`${C.red}✗${C.reset} --from must be between 1 and ${setlist.entries.length}.`);
+        process.exit(1);
+      }
 
-        if (i < total - 1) {
-          console.log(
-            `${C.green}▶${C.reset} ${C.dim}[${i + 1}/${total}]${C.reset} v${ver} → new v${newVersion}, next in ${delay}s`,
-          );
-          await new Promise((r) => setTimeout(r, delay * 1000));
-        } else {
-          console.log(
-            `${C.green}▶${C.reset} ${C.dim}[${i + 1}/${total}]${C.reset} v${ver} → new v${newVersion} ${C.dim}(done)${C.reset}`,
-          );
-        }
+      // Resolve every entry now, so a missing song fails here rather than mid-set
+      const steps = [];
+      for (const entry of setlist.entries) {
+        const { code, version } = await storage.getSongCode(entry.song, entry.version);
+        steps.push({ song: entry.song, version, code, delay: entry.delay, unit: entry.unit });
       }
 
+      console.log(`${C.dim}Starting daemon...${C.reset}`);
+      const { job } = await client.playSetlist({
+        setlist: name,
+        steps,
+        start: from - 1,
+        loop: opts.loop === true,
+        fade,
+      });
+      printSetlistJob(job);
       console.log(
-        `${C.green}✓${C.reset} Sequence complete for ${C.cyan}${name}${C.reset} — ${total} step(s) applied.`,
+        `${C.dim}  Runs in the daemon — 'strudel setlist next|prev' to skip, 'strudel setlist stop' to end.${C.reset}`,
       );
     } catch (err) {
       formatError(err as Error);
@@ -434,6 +2109,64 @@ program
     }
   });
 
+for (const [command, by] of [
+  ['next', 1],
+  ['prev', -1],
+] as const) {
+  setlistCmd
+    .command(command)
+    .description(
+      by > 0 ? 'Skip to the next song in the playing setlist' : 'Go back to the previous song in the playing setlist',
+    )
+    .action(async () => {
+      try {
+        const { job } = await client.skipSetlist(by);
+        const step = job.steps[job.step];
+        console.log(
+          `${C.green}▶${C.reset} ${C.bold}Now playing:${C.reset} ${C.cyan}${step.song}${C.reset} ${C.dim}(v${step.version})${C.reset} ${C.dim}[${job.step + 1}/${job.steps.length}]${C.reset}`,
+        );
+      } catch (err) {
+        console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+        process.exit(1);
+      }
+    });
+}
+
+setlistCmd
+  .command('status')
+  .description('Show the playing setlist (or the last one to finish)')
+  .action(async () => {
+    try {
+      const status = await client.getSetlistStatus();
+      if (!status?.job) {
+        console.log(`${C.dim}No setlist has played.${C.reset}`);
+        return;
+      }
+      printSetlistJob(status.job);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+setlistCmd
+  .command('stop')
+  .description('End the playing setlist and stop playback')
+  .option('--fade <seconds>', 'Fade out over n seconds before stopping', parseFloat)
+  .action(async (opts: { fade?: number }) => {
+    try {
+      const fade = fadeSeconds(opts.fade);
+      if (fade > 0) {
+        console.log(`${C.dim}Fading out over ${fade}s...${C.reset}`);
+      }
+      await client.stop({ fade });
+      console.log(`${C.yellow}■${C.reset} Setlist stopped.`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
 // ── delete ──
 
 program
@@ -477,6 +2210,28 @@ program
     }
   });
 
+// ── fork ──
+
+program
+  .command('fork')
+  .description('Create a new song whose v1 is a version of an existing song')
+  .argument('<name>', 'Source song name')
+  .argument('<new-name>', 'Name of the new song')
+  .option('--ver <n>', 'Source version (default: latest)', Number)
+  .option('-m, --message <text>', 'Describe the fork (default: "Fork of <name> v<n>")')
+  .option('--author <id>', 'Author or agent id (default: $STRUDEL_AUTHOR or OS user)')
+  .action(async (name: string, newName: string, opts: { ver?: number; message?: string; author?: string }) => {
+    try {
+      const { from } = await storage.forkSong(name, newName, songVersion(opts.ver), versionMeta(opts));
+      console.log(
+        `${C.green}✓${C.reset} Forked ${C.cyan}${name}${C.reset} ${C.dim}(v${from.version})${C.reset} → ${C.cyan}${C.bold}${newName}${C.reset} ${C.dim}(v1)${C.reset}`,
+      );
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
 // ── list ──
 
 program
@@ -484,7 +2239,7 @@ program
   .description('List all saved songs')
   .action(async () => {
     try {
-      const songs = await storage.listSongs();
+      const songs = await storage.listSongSummaries();
 
       if (songs.length === 0) {
         console.log(`${C.dim}No songs yet. Use 'strudel make <name> --code <code>' to create one.${C.reset}`);
@@ -492,10 +2247,9 @@ program
       }
 
       console.log(`${C.bold}Songs:${C.reset}`);
-      for (const name of songs) {
-        const detail = await storage.detailSong(name);
+      for (const song of songs) {
         console.log(
-          `  ${C.cyan}${name}${C.reset} ${C.dim}(${detail.totalVersions} version${detail.totalVersions > 1 ? 's' : ''})${C.reset}`,
+          `  ${C.cyan}${song.name}${C.reset} ${C.dim}(${song.versions} version${song.versions > 1 ? 's' : ''})${C.reset}`,
         );
       }
     } catch (err) {
@@ -504,6 +2258,164 @@ program
     }
   });
 
+// ── record ──
+
+const recordCmd = program
+  .command('record')
+  .description('Record the live output (every update and transition) to a WAV file');
+
+recordCmd
+  .command('start')
+  .description('Start recording what the daemon plays')
+  .option('-o, --out <file>', 'Output WAV file (default: recording-<date>-<time>.wav)')
+  .option('--bit-depth <n>', 'Bits per sample: 16 or 24', parseInt, 16)
+  .action(async (opts: { out?: string; bitDepth: number }) => {
+    if (opts.bitDepth !== 16 && opts.bitDepth !== 24) {
+      console.error(`${C.red}✗${C.reset} --bit-depth must be 16 or 24.`);
+      process.exit(1);
+    }
+    try {
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+      // The daemon runs in another directory — always hand it an absolute path
+      const out = resolve(opts.out ?? `recording-${stamp}.wav`);
+      await client.startRecording({ out, bitDepth: opts.bitDepth });
+      console.log(`${C.red}●${C.reset} Recording to ${C.bold}${out}${C.reset}`);
+      console.log(`${C.dim}  Stop with 'strudel record stop'.${C.reset}`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+recordCmd
+  .command('stop')
+  .description('Stop recording and finalize the WAV file')
+  .action(async () => {
+    try {
+      const { recording } = await client.stopRecording();
+      console.log(
+        `${C.green}✓${C.reset} Saved ${C.bold}${recording.path}${C.reset} ${C.dim}(${formatClock(recording.seconds)}, ${formatBytes(recording.bytes)})${C.reset}`,
+      );
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// ── samples ──
+
+const samplesCmd = program
+  .command('samples')
+  .description('Manage local sample folders and the offline sample cache');
+
+samplesCmd
+  .command('add')
+  .description('Register a local folder of audio files as a sound bank')
+  .argument('<dir>', 'Folder with WAV/FLAC files (each sub-folder becomes a sound)')
+  .option('--name <bank>', 'Bank name (default: folder name)')
+  .action(async (dir: string, opts: { name?: string }) => {
+    try {
+      const { name, sounds } = await samples.addSampleFolder(dir, opts.name);
+      const fileCount = Object.values(sounds).reduce((n, files) => n + files.length, 0);
+      console.log(
+        `${C.green}✓${C.reset} Added sample bank ${C.cyan}${C.bold}${name}${C.reset} ${C.dim}(${Object.keys(sounds).length} sound(s), ${fileCount} file(s))${C.reset}`,
+      );
+      for (const [key, files] of Object.entries(sounds)) {
+        const usage = key === name ? `s("${name}")` : `s("${key.slice(name.length + 1)}").bank("${name}")`;
+        console.log(`  ${C.cyan}${usage}${C.reset} ${C.dim}${files.length} file(s)${C.reset}`);
+      }
+
+      const reloaded = await client.reloadSamples();
+      if (reloaded) {
+        console.log(`${C.dim}  Loaded into the running daemon.${C.reset}`);
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+samplesCmd
+  .command('remove')
+  .description('Unregister a local sound bank (files are kept)')
+  .argument('<name>', 'Bank name')
+  .action(async (name: string) => {
+    try {
+      await samples.removeSampleFolder(name);
+      console.log(`${C.green}✓${C.reset} Removed sample bank ${C.cyan}${C.bold}${name}${C.reset}.`);
+      if (await client.isDaemonRunning()) {
+        console.log(`${C.dim}  The running daemon keeps it until it restarts.${C.reset}`);
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+samplesCmd
+  .command('list')
+  .description('List local sound banks and sample cache usage')
+  .action(async () => {
+    try {
+      const folders = await samples.listSampleFolders();
+      const names = Object.keys(folders);
+
+      if (names.length === 0) {
+        console.log(`${C.dim}No local sample banks. Use 'strudel samples add <dir>' to register one.${C.reset}`);
+      } else {
+        console.log(`${C.bold}Local banks:${C.reset}`);
+        for (const name of names) {
+          console.log(`  ${C.cyan}${name}${C.reset} ${C.dim}${folders[name].path}${C.reset}`);
+        }
+      }
+
+      const stats = await samples.cacheStats();
+      const offline = await samples.isOffline();
+      console.log();
+      console.log(
+        `${C.bold}Cache:${C.reset} ${stats.urls} URL(s), ${stats.objects} object(s), ${(stats.bytes / 1024 / 1024).toFixed(1)} MB`,
+      );
+      console.log(`${C.bold}Network:${C.reset} ${offline ? `${C.yellow}offline (cache only)${C.reset}` : 'on cache miss'}`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+samplesCmd
+  .command('offline')
+  .description('Serve samples from the cache only (on) or fetch misses from the network (off, the default)')
+  .argument('<mode>', 'on | off')
+  .action(async (mode: string) => {
+    try {
+      if (mode !== 'on' && mode !== 'off') {
+        console.error(`${C.red}✗${C.reset} Mode must be 'on' or 'off'.`);
+        process.exit(1);
+      }
+      await samples.setOffline(mode === 'on');
+      console.log(`${C.green}✓${C.reset} Offline mode ${C.bold}${mode}${C.reset}.`);
+      if (await client.isDaemonRunning()) {
+        console.log(`${C.dim}  Takes effect when the daemon restarts.${C.reset}`);
+      }
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+samplesCmd
+  .command('clear-cache')
+  .description('Delete all cached manifests and sample files')
+  .action(async () => {
+    try {
+      await samples.clearCache();
+      console.log(`${C.green}✓${C.reset} Sample cache cleared.`);
+    } catch (err) {
+      console.error(`${C.red}✗${C.reset} ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
 // ── Parse and execute ──
 
 program.parse();
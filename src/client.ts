@@ -10,6 +10,7 @@ import { existsSync } from 'node:fs';
 import { spawn } from 'node:child_process';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
+import { Agent, fetch } from 'undici';
 import {
   PID_FILE,
   DAEMON_HOST,
@@ -26,8 +27,28 @@ import type {
   PlayResponse,
   StopResponse,
   PauseResponse,
+  ResumeResponse,
+  RestartResponse,
   EvaluateResponse,
   ValidateResponse,
+  ReloadSamplesResponse,
+  DaemonEvent,
+  LayersResponse,
+  TempoResponse,
+  SequenceRequest,
+  SequenceResponse,
+  SequenceStatusResponse,
+  SetlistPlayRequest,
+  SetlistResponse,
+  SetlistStatusResponse,
+  VolumeRequest,
+  VolumeResponse,
+  RecordStartRequest,
+  RecordResponse,
+  OutputRequest,
+  OutputResponse,
+  HapsRequest,
+  HapsResponse,
 } from './types.js';
 import { mkdirSync } from 'node:fs';
 import { openSync, closeSync } from 'node:fs';
@@ -172,12 +193,20 @@ async function get<T>(path: string, pidInfo: DaemonPidInfo): Promise<T> {
   return data as T;
 }
 
-async function post<T>(path: string, body: unknown, pidInfo: DaemonPidInfo): Promise<T> {
+/**
+ * For requests the daemon answers only once something has happened (a
+ * quantized swap, a fade in or out): fetch's default 300 s header/body timeouts would
+ * fail them while the daemon carries on.
+ */
+const untimed = new Agent({ headersTimeout: 0, bodyTimeout: 0 });
+
+async function post<T>(path: string, body: unknown, pidInfo: DaemonPidInfo, waits = false): Promise<T> {
   const url = `http://${DAEMON_HOST}:${pidInfo.port}${path}`;
   const resp = await fetch(url, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
+    dispatcher: waits ? untimed : undefined,
   });
   const data = await resp.json();
   if (!resp.ok) {
@@ -211,25 +240,41 @@ export async function getCurrent(): Promise<CurrentResponse> {
   return get<CurrentResponse>('/current', pidInfo);
 }
 
+/**
+ * Events of the playing pattern in a window of cycles, for the visualizer.
+ * Returns null if the daemon is not running.
+ */
+export async function getHaps(request: HapsRequest): Promise<HapsResponse | null> {
+  const running = await isDaemonRunning();
+  if (!running) return null;
+  const pidInfo = (await readPidFile())!;
+  return post<HapsResponse>('/haps', request, pidInfo);
+}
+
 /**
  * Play a song (sends code to daemon).
  * Auto-starts daemon if not running.
  */
-export async function play(code: string, name: string, version: number): Promise<PlayResponse> {
+export async function play(
+  code: string,
+  name: string,
+  version: number,
+  options: { fade?: number } = {},
+): Promise<PlayResponse> {
   const pidInfo = await ensureDaemon();
-  return post<PlayResponse>('/play', { code, name, version }, pidInfo);
+  return post<PlayResponse>('/play', { code, name, version, ...options }, pidInfo, true);
 }
 
 /**
- * Stop playback.
+ * Stop playback, optionally fading out first (resolves once silent).
  */
-export async function stop(): Promise<StopResponse> {
+export async function stop(options: { fade?: number } = {}): Promise<StopResponse> {
   const running = await isDaemonRunning();
   if (!running) {
     throw new Error("No music is playing. Use 'strudel play <name>' to start.");
   }
   const pidInfo = (await readPidFile())!;
-  return post<StopResponse>('/stop', {}, pidInfo);
+  return post<StopResponse>('/stop', options, pidInfo, true);
 }
 
 /**
@@ -244,17 +289,43 @@ export async function pause(): Promise<PauseResponse> {
   return post<PauseResponse>('/pause', {}, pidInfo);
 }
 
+/**
+ * Resume paused playback from where it stopped.
+ */
+export async function resume(): Promise<ResumeResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("No music is playing. Use 'strudel play <name>' to start.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<ResumeResponse>('/resume', {}, pidInfo);
+}
+
+/**
+ * Jump back to cycle 0 of the loaded song.
+ */
+export async function restart(): Promise<RestartResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("No music is playing. Use 'strudel play <name>' to start.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<RestartResponse>('/restart', {}, pidInfo);
+}
+
 /**
  * Evaluate code on the running daemon (used by update command).
+ * With `quantize`, resolves once the change took effect on a cycle boundary.
  * Auto-starts daemon if not running.
  */
 export async function evaluate(
   code: string,
   name?: string,
   version?: number,
+  options: { quantize?: number; fade?: number } = {},
 ): Promise<EvaluateResponse> {
   const pidInfo = await ensureDaemon();
-  return post<EvaluateResponse>('/evaluate', { code, name, version }, pidInfo);
+  return post<EvaluateResponse>('/evaluate', { code, name, version, ...options }, pidInfo, true);
 }
 
 /**
@@ -266,6 +337,211 @@ export async function validate(code: string): Promise<ValidateResponse> {
   return post<ValidateResponse>('/validate', { code }, pidInfo);
 }
 
+/**
+ * Add (or replace) a named layer slot playing `code` on top of the main song.
+ * Auto-starts daemon if not running.
+ */
+export async function addLayer(
+  slot: string,
+  code: string,
+  name: string,
+  version: number,
+): Promise<LayersResponse> {
+  const pidInfo = await ensureDaemon();
+  return post<LayersResponse>('/layers/add', { slot, code, name, version }, pidInfo);
+}
+
+/**
+ * Remove a layer slot.
+ */
+export async function removeLayer(slot: string): Promise<LayersResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("No music is playing. Use 'strudel play <name>' to start.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<LayersResponse>('/layers/remove', { slot }, pidInfo);
+}
+
+/**
+ * Turn mute or solo on/off for a layer slot.
+ */
+export async function toggleLayer(
+  flag: 'mute' | 'solo',
+  slot: string,
+  on: boolean,
+): Promise<LayersResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("No music is playing. Use 'strudel play <name>' to start.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<LayersResponse>(`/layers/${flag}`, { slot, on }, pidInfo);
+}
+
+/**
+ * Change the running tempo without touching the song code.
+ */
+export async function setTempo(cps: number, ramp?: number): Promise<TempoResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("No music is playing. Use 'strudel play <name>' to start.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<TempoResponse>('/tempo', { cps, ramp }, pidInfo);
+}
+
+/**
+ * Change master volume, mute or the limiter ceiling.
+ */
+export async function setMixer(changes: VolumeRequest): Promise<VolumeResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("No music is playing. Use 'strudel play <name>' to start.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<VolumeResponse>('/volume', changes, pidInfo);
+}
+
+/**
+ * Start recording the daemon's output to a WAV file.
+ * Auto-starts daemon if not running (playback started later is captured too).
+ */
+export async function startRecording(request: RecordStartRequest): Promise<RecordResponse> {
+  const pidInfo = await ensureDaemon();
+  return post<RecordResponse>('/record/start', request, pidInfo);
+}
+
+/**
+ * Stop recording; resolves once the file is finalized.
+ */
+export async function stopRecording(): Promise<RecordResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("Not recording. Use 'strudel record start' to begin.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<RecordResponse>('/record/stop', {}, pidInfo);
+}
+
+/**
+ * Route the daemon's output to the built-in synths, to OSC, or to both.
+ * Auto-starts daemon if not running.
+ */
+export async function setOutput(request: OutputRequest): Promise<OutputResponse> {
+  const pidInfo = await ensureDaemon();
+  return post<OutputResponse>('/output', request, pidInfo);
+}
+
+/**
+ * Hand a version timeline to the daemon, which plays it through on its own.
+ * Resolves once the first step is playing. Auto-starts daemon if not running.
+ */
+export async function startSequence(request: SequenceRequest): Promise<SequenceResponse> {
+  const pidInfo = await ensureDaemon();
+  return post<SequenceResponse>('/sequence', request, pidInfo);
+}
+
+/**
+ * The running sequence, or the last one to finish.
+ * Returns null if the daemon is not running.
+ */
+export async function getSequence(): Promise<SequenceStatusResponse | null> {
+  const running = await isDaemonRunning();
+  if (!running) return null;
+  const pidInfo = (await readPidFile())!;
+  return get<SequenceStatusResponse>('/sequence', pidInfo);
+}
+
+/**
+ * Cancel the running sequence (only if it is job `id`, when given).
+ */
+export async function cancelSequence(id?: string): Promise<SequenceResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error('No sequence is running.');
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<SequenceResponse>('/sequence/cancel', { id }, pidInfo);
+}
+
+/**
+ * Start a setlist; the daemon moves through the songs on its own.
+ * Resolves once the first song is playing. Auto-starts daemon if not running.
+ */
+export async function playSetlist(request: SetlistPlayRequest): Promise<SetlistResponse> {
+  const pidInfo = await ensureDaemon();
+  return post<SetlistResponse>('/setlist', request, pidInfo);
+}
+
+/**
+ * The playing setlist, or the last one to finish.
+ * Returns null if the daemon is not running.
+ */
+export async function getSetlistStatus(): Promise<SetlistStatusResponse | null> {
+  const running = await isDaemonRunning();
+  if (!running) return null;
+  const pidInfo = (await readPidFile())!;
+  return get<SetlistStatusResponse>('/setlist', pidInfo);
+}
+
+/**
+ * Skip `by` songs in the playing setlist (1 = next, -1 = previous).
+ */
+export async function skipSetlist(by: number): Promise<SetlistResponse> {
+  const running = await isDaemonRunning();
+  if (!running) {
+    throw new Error("No setlist is playing. Use 'strudel setlist play <name>' to start.");
+  }
+  const pidInfo = (await readPidFile())!;
+  return post<SetlistResponse>('/setlist/skip', { by }, pidInfo);
+}
+
+/**
+ * Subscribe to the daemon's server-sent event stream.
+ * Calls `onEvent` for every event; resolves when the daemon closes the stream.
+ * Auto-starts daemon if not running.
+ */
+export async function watchEvents(onEvent: (event: DaemonEvent) => void): Promise<void> {
+  const pidInfo = await ensureDaemon();
+  const resp = await fetch(`http://${DAEMON_HOST}:${pidInfo.port}/events`, {
+    headers: { Accept: 'text/event-stream' },
+  });
+  if (!resp.ok || !resp.body) {
+    throw new Error(`HTTP ${resp.status}`);
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of resp.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    // Frames are separated by a blank line; comment lines (": ...") carry no data
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data) as DaemonEvent);
+    }
+  }
+}
+
+/**
+ * Re-register local sample folders on the running daemon.
+ * Returns null if the daemon is not running (it picks them up on next start).
+ */
+export async function reloadSamples(): Promise<ReloadSamplesResponse | null> {
+  const running = await isDaemonRunning();
+  if (!running) return null;
+  const pidInfo = (await readPidFile())!;
+  return post<ReloadSamplesResponse>('/samples/reload', {}, pidInfo);
+}
+
 /**
  * Get daemon health (without starting it).
  */
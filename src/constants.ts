@@ -4,9 +4,14 @@ import { join } from 'node:path';
 // ── Directory & File Paths ──
 
 export const STRUDEL_DIR = join(homedir(), '.strudel-cli');
+export const SONGS_DIR = join(STRUDEL_DIR, 'songs');
+/** Legacy single-file store — migrated into SONGS_DIR on first run */
 export const SONGS_FILE = join(STRUDEL_DIR, 'songs.json');
 export const PID_FILE = join(STRUDEL_DIR, 'daemon.pid');
 export const DAEMON_LOG = join(STRUDEL_DIR, 'daemon.log');
+export const SAMPLES_FILE = join(STRUDEL_DIR, 'samples.json');
+export const SETLISTS_FILE = join(STRUDEL_DIR, 'setlists.json');
+export const SAMPLE_CACHE_DIR = join(STRUDEL_DIR, 'cache');
 
 // ── Daemon Config ──
 
@@ -14,6 +19,29 @@ export const DAEMON_HOST = '127.0.0.1';
 export const INACTIVITY_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
 export const HEALTH_POLL_INTERVAL_MS = 200;
 export const HEALTH_POLL_MAX_ATTEMPTS = 75; // 15 seconds total
+export const EVENT_TICK_INTERVAL_MS = 1000;
+/** Comment frame on /events while nothing else is sent — keeps clients' read timeouts at bay */
+export const EVENT_KEEPALIVE_INTERVAL_MS = 20_000;
+export const TEMPO_RAMP_STEP_MS = 50;
+/** How often a pending quantized swap checks the scheduler position */
+export const SWAP_POLL_INTERVAL_MS = 10;
+/** Frame interval of `strudel viz` (each frame polls the daemon once) */
+export const VIZ_FRAME_MS = 100;
+
+// ── Master Bus ──
+
+/** Safety limiter ceiling in dBFS (override with $STRUDEL_CEILING or `strudel volume --ceiling`) */
+export const DEFAULT_CEILING_DB = -1;
+
+// ── OSC Output ──
+
+/** SuperDirt's default listening address */
+export const DEFAULT_OSC_HOST = '127.0.0.1';
+export const DEFAULT_OSC_PORT = 57120;
+
+// ── strudel.cc ──
+
+export const STRUDEL_REPL_URL = 'https://strudel.cc/';
 
 // ── Colors (ANSI escape codes — zero dependencies) ──
 
@@ -2,7 +2,9 @@
  * Strudel daemon — long-running background process that holds the audio engine.
  *
  * Starts an HTTP server on a random port, writes { port, pid } to daemon.pid,
- * and responds to play/stop/pause/evaluate/current commands.
+ * and responds to play/stop/pause/resume/restart/evaluate/current/tempo/volume/record/output commands. Activity is
+ * broadcast to subscribers of GET /events as server-sent events. Version sequences and
+ * setlists run here too, so they outlive the CLI that started them.
  *
  * Auto-exits after 30 minutes of inactivity.
  */
@@ -18,10 +20,39 @@ process.on('uncaughtException', (err) => {
 
 import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 import { writeFile, unlink } from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
+import { isAbsolute } from 'node:path';
 import { createEngine } from './engine.js';
-import { PID_FILE, DAEMON_HOST, INACTIVITY_TIMEOUT_MS, DAEMON_LOG, STRUDEL_DIR } from './constants.js';
+import { promoteVersion } from './storage.js';
+import {
+  PID_FILE,
+  DAEMON_HOST,
+  INACTIVITY_TIMEOUT_MS,
+  DAEMON_LOG,
+  STRUDEL_DIR,
+  EVENT_TICK_INTERVAL_MS,
+  EVENT_KEEPALIVE_INTERVAL_MS,
+} from './constants.js';
 import { mkdirSync, appendFileSync, existsSync } from 'node:fs';
-import type { DaemonState, StrudelEngine } from './types.js';
+import type {
+  DaemonState,
+  DaemonEvent,
+  DaemonEventAction,
+  LayerSlot,
+  Recorder,
+  SequenceDelayUnit,
+  SequenceJob,
+  SequenceStatus,
+  SequenceStep,
+  SetlistJob,
+  SetlistStep,
+  StateEvent,
+  StrudelEngine,
+  SwapOptions,
+  SwapResult,
+  TimelineJob,
+  VersionMeta,
+} from './types.js';
 
 // ── Logging ──
 
@@ -45,6 +76,7 @@ function log(msg: string) {
 
 let engine: StrudelEngine | null = null;
 let state: DaemonState = { state: 'stopped' };
+let recorder: Recorder | null = null;
 let inactivityTimer: ReturnType<typeof setTimeout> | null = null;
 
 function resetInactivityTimer() {
@@ -56,6 +88,330 @@ function resetInactivityTimer() {
   }, INACTIVITY_TIMEOUT_MS);
 }
 
+// ── Playback Clock ──
+// Wall-clock time actually played since the last play/restart, for /current
+
+let playedMs = 0;
+let playingSince: number | null = null;
+
+function elapsedSeconds(): number {
+  return (playedMs + (playingSince != null ? Date.now() - playingSince : 0)) / 1000;
+}
+
+function resetClock(running: boolean) {
+  playedMs = 0;
+  playingSince = running ? Date.now() : null;
+}
+
+function pauseClock() {
+  if (playingSince != null) {
+    playedMs += Date.now() - playingSince;
+    playingSince = null;
+  }
+}
+
+/**
+ * Account for a transition into 'playing': a fresh start from stopped, a continuation otherwise.
+ */
+function runClock(previous: DaemonState['state']) {
+  if (previous === 'stopped') {
+    resetClock(true);
+  } else {
+    playingSince ??= Date.now();
+  }
+}
+
+// ── Event Stream ──
+
+const eventClients = new Set<ServerResponse>();
+
+/** An event before it is timestamped (distributes Omit over the union) */
+type Unstamped<E> = E extends DaemonEvent ? Omit<E, 'at'> : never;
+
+function formatEvent(event: Unstamped<DaemonEvent>): string {
+  const full = { ...event, at: new Date().toISOString() };
+  return `event: ${full.type}\ndata: ${JSON.stringify(full)}\n\n`;
+}
+
+function emit(event: Unstamped<DaemonEvent>) {
+  if (eventClients.size === 0) return;
+  const frame = formatEvent(event);
+  for (const client of eventClients) {
+    client.write(frame);
+  }
+}
+
+function stateEvent(action: DaemonEventAction): Unstamped<StateEvent> {
+  return { type: 'state', action, state: state.state, name: state.name, version: state.version };
+}
+
+function emitState(action: DaemonEventAction) {
+  emit(stateEvent(action));
+}
+
+// Periodic position ticks while something is playing and someone is listening
+setInterval(() => {
+  if (eventClients.size === 0 || state.state !== 'playing' || !engine) return;
+  emit({ type: 'tick', state: state.state, cycle: engine.getCycle(), name: state.name, version: state.version });
+}, EVENT_TICK_INTERVAL_MS).unref();
+
+// Idle, stopped or paused streams carry no ticks; a comment frame keeps them
+// from looking dead (fetch gives up on a body silent for 300 s)
+setInterval(() => {
+  for (const client of eventClients) {
+    client.write(': keepalive\n\n');
+  }
+}, EVENT_KEEPALIVE_INTERVAL_MS).unref();
+
+// ── Layers ──
+
+/**
+ * Codes that should sound right now: the main song plus unmuted layers,
+ * or only the soloed layers if any layer is soloed.
+ */
+function activeLayers(s: DaemonState): { name: string; code: string }[] {
+  // Named after the slot (the main song is 'main'), which lanes in `strudel viz` show
+  const layers = Object.entries(s.layers ?? {});
+  const soloed = layers.filter(([, l]) => l.solo);
+  if (soloed.length > 0) return soloed.map(([slot, l]) => ({ name: slot, code: l.code }));
+  return [
+    ...(s.code ? [{ name: 'main', code: s.code }] : []),
+    ...layers.filter(([, l]) => !l.muted).map(([slot, l]) => ({ name: slot, code: l.code })),
+  ];
+}
+
+function hasLayers(s: DaemonState): boolean {
+  return Object.keys(s.layers ?? {}).length > 0;
+}
+
+/**
+ * Send the pattern for `next` to the engine. Without layers the main code
+ * goes through the REPL as-is; with layers every active slot is compiled
+ * and stacked into one pattern.
+ */
+async function applyPattern(next: DaemonState, options?: SwapOptions): Promise<SwapResult> {
+  if (!engine) throw new Error('Engine not initialized');
+  const result = hasLayers(next)
+    ? await engine.evaluateLayers(activeLayers(next), options)
+    : await engine.evaluate(next.code!, options);
+  // Paused while the swap was pending — the new code is in place, playback stays paused
+  if (result.paused) next.state = 'paused';
+  return result;
+}
+
+// ── Timelines ──
+// Sequences (versions of one song) and setlists (songs from the library) are
+// timelines the daemon steps through on its own. Each step waits out its delay
+// on the playback clocks — wall seconds or scheduler cycles, both frozen while
+// paused. Only one timeline drives playback at a time.
+
+interface TimelineRun<J extends TimelineJob = TimelineJob> {
+  action: 'sequence' | 'setlist';
+  job: J;
+  /** Load and play the active step; false if the timeline was cancelled meanwhile */
+  playStep: () => Promise<boolean>;
+  /**
+   * Called once the last step of a non-looping timeline has played out its delay.
+   * Without it the timeline is done as soon as its last step starts (which keeps playing).
+   */
+  onEnd?: () => Promise<void>;
+  /** Clock reading the active step's delay counts from */
+  since: number;
+  /** Armed while the active step's delay is counting */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** The running sequence / setlist, or the last one to finish */
+let sequence: TimelineRun<SequenceJob> | null = null;
+let setlist: TimelineRun<SetlistJob> | null = null;
+
+function timelineClock(unit: SequenceDelayUnit): number {
+  return unit === 'cycles' ? engine!.getCycle() : elapsedSeconds();
+}
+
+function isRunning<J extends TimelineJob>(run: TimelineRun<J> | null): run is TimelineRun<J> {
+  return run != null && run.job.status === 'running';
+}
+
+function activeTimeline(): TimelineRun | null {
+  if (isRunning(sequence)) return sequence;
+  if (isRunning(setlist)) return setlist;
+  return null;
+}
+
+/** Whether the active step is the final one of a non-looping timeline */
+function isFinalStep(job: TimelineJob): boolean {
+  return !job.loop && job.step === job.steps.length - 1;
+}
+
+/** How far the active step is into its delay, in the step's unit */
+function timelineProgress(run: TimelineRun): number {
+  return timelineClock(run.job.steps[run.job.step].unit) - run.since;
+}
+
+function timelineSnapshot<J extends TimelineJob>(run: TimelineRun<J>): J {
+  if (!isRunning(run) || !run.timer) return { ...run.job };
+  const remaining = Math.max(0, run.job.steps[run.job.step].delay - timelineProgress(run));
+  return { ...run.job, remaining };
+}
+
+function finishTimeline(run: TimelineRun, status: Exclude<SequenceStatus, 'running'>, error?: string) {
+  if (run.timer) clearTimeout(run.timer);
+  run.timer = null;
+  run.job.status = status;
+  run.job.error = error;
+  log(`${run.action} ${run.job.id} ${status}${error ? `: ${error}` : ''}`);
+}
+
+/**
+ * Cancel whichever timeline is running — playback was taken over by something else.
+ */
+function cancelTimelines(reason: string) {
+  const run = activeTimeline();
+  if (run) finishTimeline(run, 'cancelled', reason);
+}
+
+/**
+ * Play the active step, then arm the timer for the next. A failing step fails the timeline.
+ */
+async function playTimelineStep(run: TimelineRun): Promise<void> {
+  try {
+    if (!(await run.playStep())) return;
+  } catch (err) {
+    if (isRunning(run)) finishTimeline(run, 'failed', (err as Error).message);
+    throw err;
+  }
+
+  run.since = timelineClock(run.job.steps[run.job.step].unit);
+  resetInactivityTimer();
+  if (isFinalStep(run.job) && !run.onEnd) {
+    finishTimeline(run, 'done');
+    return;
+  }
+  armTimeline(run);
+}
+
+function armTimeline(run: TimelineRun) {
+  const step = run.job.steps[run.job.step];
+  const left = step.delay - timelineProgress(run);
+
+  if (left > 0) {
+    // Re-check when the delay should be up; the clocks may have been paused or re-timed meanwhile
+    const ms = step.unit === 'cycles' ? (left / engine!.getCps()) * 1000 : left * 1000;
+    run.timer = setTimeout(() => armTimeline(run), ms);
+    return;
+  }
+
+  run.timer = null;
+  if (isFinalStep(run.job)) {
+    finishTimeline(run, 'done');
+    void run.onEnd!();
+    return;
+  }
+  moveTimeline(run, 1).catch((err) => {
+    emit({ type: 'error', action: run.action, error: (err as Error).message, name: state.name, version: state.version });
+  });
+}
+
+/**
+ * Jump `by` steps (wrapping around) and play the step there.
+ */
+async function moveTimeline(run: TimelineRun, by: number): Promise<void> {
+  if (run.timer) clearTimeout(run.timer);
+  run.timer = null;
+  const { job } = run;
+  const target = job.step + by;
+  if (target >= job.steps.length) job.pass++;
+  job.step = ((target % job.steps.length) + job.steps.length) % job.steps.length;
+  await playTimelineStep(run);
+}
+
+/**
+ * A sequence step promotes its version the first time it plays (later loop
+ * passes reuse it) and swaps it in like `evaluate`.
+ */
+function sequenceRun(job: SequenceJob, options: SwapOptions, meta?: VersionMeta): TimelineRun<SequenceJob> {
+  const promoted: ({ code: string; version: number } | undefined)[] = [];
+
+  return {
+    action: 'sequence',
+    job,
+    since: 0,
+    timer: null,
+    playStep: async () => {
+      const step = job.steps[job.step];
+      let entry = promoted[job.step];
+      if (!entry) {
+        const { code, newVersion } = await promoteVersion(job.name, step.version, meta);
+        entry = { code, version: newVersion };
+        promoted[job.step] = entry;
+      }
+      if (job.status !== 'running') return false;
+
+      const next: DaemonState = {
+        state: 'playing',
+        name: job.name,
+        version: entry.version,
+        code: entry.code,
+        layers: state.layers,
+      };
+      const { cycle } = await applyPattern(next, options);
+      if (job.status !== 'running') return false;
+
+      if (next.state === 'playing') runClock(state.state);
+      state = next;
+      job.version = entry.version;
+      log(
+        `Sequence ${job.id} step ${job.step + 1}/${job.steps.length}: v${step.version} → v${entry.version} at cycle ${cycle.toFixed(2)}`,
+      );
+      emitState('sequence');
+      return true;
+    },
+  };
+}
+
+/**
+ * A setlist step plays its song like `play` (from cycle 0, or crossfaded);
+ * after the last song the setlist stops playback.
+ */
+function setlistRun(job: SetlistJob, codes: string[], fade: number): TimelineRun<SetlistJob> {
+  return {
+    action: 'setlist',
+    job,
+    since: 0,
+    timer: null,
+    playStep: async () => {
+      const step = job.steps[job.step];
+      const next: DaemonState = {
+        state: 'playing',
+        name: step.song,
+        version: step.version,
+        code: codes[job.step],
+        layers: state.layers,
+      };
+      if (state.state === 'playing' && fade === 0) {
+        engine!.stop();
+      }
+      await applyPattern(next, { fade });
+      if (job.status !== 'running') return false;
+
+      state = next;
+      resetClock(next.state === 'playing');
+      log(`Setlist ${job.setlist} song ${job.step + 1}/${job.steps.length}: ${step.song} v${step.version}`);
+      emitState('setlist');
+      return true;
+    },
+    onEnd: async () => {
+      if (fade > 0 && state.state === 'playing') {
+        const fading = state;
+        await engine!.fadeOut(fade);
+        if (state !== fading) return;
+      }
+      stopPlayback();
+    },
+  };
+}
+
 // ── Request Parsing ──
 
 function readBody(req: IncomingMessage): Promise<string> {
@@ -67,6 +423,17 @@ function readBody(req: IncomingMessage): Promise<string> {
   });
 }
 
+/**
+ * Check an optional non-negative number field; returns an error message or null.
+ */
+function checkAmount(value: unknown, field: string, unit: string): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    return `"${field}" must be a number of ${unit} >= 0`;
+  }
+  return null;
+}
+
 function json(res: ServerResponse, status: number, data: unknown) {
   const body = JSON.stringify(data);
   res.writeHead(status, {
@@ -83,56 +450,153 @@ function handleHealth(res: ServerResponse) {
 }
 
 function handleCurrent(res: ServerResponse) {
-  json(res, 200, { ...state });
+  const active = engine && state.state !== 'stopped';
+  json(res, 200, {
+    ...state,
+    cps: engine?.getCps(),
+    cycle: active ? engine!.getCycle() : undefined,
+    elapsed: active ? elapsedSeconds() : undefined,
+    sequence: isRunning(sequence) ? timelineSnapshot(sequence) : undefined,
+    setlist: isRunning(setlist) ? timelineSnapshot(setlist) : undefined,
+    mixer: engine?.getMixer(),
+    recording: recorder?.info(),
+    output: engine?.getOutput(),
+  });
+}
+
+async function handleHaps(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { from, to } = JSON.parse(body);
+
+    if (typeof from !== 'number' || typeof to !== 'number' || !Number.isFinite(from) || !(to > from)) {
+      json(res, 400, { ok: false, error: '"from" and "to" must be cycle numbers with from < to' });
+      return;
+    }
+
+    const active = engine && state.state !== 'stopped';
+    json(res, 200, {
+      ok: true,
+      state: state.state,
+      name: state.name,
+      version: state.version,
+      cycle: active ? engine!.getCycle() : undefined,
+      cps: engine?.getCps(),
+      events: active ? engine!.queryEvents(from, to) : [],
+      viz: active ? engine!.getViz() : null,
+    });
+  } catch (err) {
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+function handleEvents(req: IncomingMessage, res: ServerResponse) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+  // Initial snapshot so subscribers don't have to poll /current first
+  if (state.state !== 'stopped') {
+    res.write(formatEvent(stateEvent(state.state === 'paused' ? 'pause' : 'play')));
+  }
+
+  eventClients.add(res);
+  log(`Event subscriber connected (${eventClients.size} total)`);
+  req.on('close', () => {
+    eventClients.delete(res);
+    log(`Event subscriber disconnected (${eventClients.size} total)`);
+  });
 }
 
 async function handlePlay(req: IncomingMessage, res: ServerResponse) {
   try {
     const body = await readBody(req);
-    const { code, name, version } = JSON.parse(body);
+    const { code, name, version, fade = 0 } = JSON.parse(body);
 
     if (!code || typeof code !== 'string') {
       json(res, 400, { ok: false, error: 'Missing "code" in request body' });
       return;
     }
+    const invalid = checkAmount(fade, 'fade', 'seconds');
+    if (invalid) {
+      json(res, 400, { ok: false, error: invalid });
+      return;
+    }
 
     if (!engine) {
       json(res, 500, { ok: false, error: 'Engine not initialized' });
       return;
     }
 
-    // Stop current playback if any
-    if (state.state === 'playing') {
+    cancelTimelines(`Replaced by play of '${name || 'anonymous'}'`);
+
+    // Stop current playback if any — unless crossfading into the new song
+    if (state.state === 'playing' && fade === 0) {
       engine.stop();
     }
 
-    // Evaluate new code (starts playback automatically)
-    await engine.evaluate(code);
-
-    state = {
+    // Replace the main song; layers keep playing on top of it
+    const next: DaemonState = {
       state: 'playing',
       name: name || undefined,
       version: version || undefined,
       code,
+      layers: state.layers,
     };
 
+    // Evaluate new code (starts playback automatically)
+    await applyPattern(next, { fade });
+
+    state = next;
+    resetClock(next.state === 'playing');
+
     resetInactivityTimer();
     log(`Playing: ${name || 'anonymous'} v${version || '?'}`);
+    emitState('play');
     json(res, 200, { ok: true, name: state.name, version: state.version, state: state.state });
   } catch (err) {
     log(`Play error: ${(err as Error).message}`);
+    emit({ type: 'error', action: 'play', error: (err as Error).message, name: state.name, version: state.version });
     json(res, 500, { ok: false, error: (err as Error).message });
   }
 }
 
-async function handleStop(res: ServerResponse) {
+function stopPlayback() {
+  if (engine) {
+    engine.stop();
+  }
+  state = { state: 'stopped' };
+  resetClock(false);
+  log('Stopped playback');
+  emitState('stop');
+}
+
+async function handleStop(req: IncomingMessage, res: ServerResponse) {
   try {
-    if (engine) {
-      engine.stop();
+    const body = await readBody(req);
+    const { fade = 0 } = body ? JSON.parse(body) : {};
+    const invalid = checkAmount(fade, 'fade', 'seconds');
+    if (invalid) {
+      json(res, 400, { ok: false, error: invalid });
+      return;
     }
-    state = { state: 'stopped' };
+
+    cancelTimelines('Playback stopped');
+
+    if (engine && fade > 0 && state.state === 'playing') {
+      const fading = state;
+      log(`Fading out over ${fade}s`);
+      await engine.fadeOut(fade);
+      // Something else started playing during the fade — leave it alone
+      if (state !== fading) {
+        json(res, 200, { ok: true, state: state.state });
+        return;
+      }
+    }
+    stopPlayback();
     resetInactivityTimer();
-    log('Stopped playback');
     json(res, 200, { ok: true, state: 'stopped' });
   } catch (err) {
     log(`Stop error: ${(err as Error).message}`);
@@ -142,14 +606,22 @@ async function handleStop(res: ServerResponse) {
 
 async function handlePause(res: ServerResponse) {
   try {
+    if (state.state !== 'playing') {
+      if (state.state === 'paused') {
+        json(res, 200, { ok: true, state: state.state });
+      } else {
+        json(res, 409, { ok: false, error: "Nothing is playing. Use 'strudel play <name>' to start." });
+      }
+      return;
+    }
     if (engine) {
       engine.pause();
     }
-    if (state.state === 'playing') {
-      state = { ...state, state: 'paused' };
-    }
+    state = { ...state, state: 'paused' };
+    pauseClock();
     resetInactivityTimer();
     log('Paused playback');
+    emitState('pause');
     json(res, 200, { ok: true, state: 'paused' });
   } catch (err) {
     log(`Pause error: ${(err as Error).message}`);
@@ -157,37 +629,117 @@ async function handlePause(res: ServerResponse) {
   }
 }
 
+async function handleResume(res: ServerResponse) {
+  try {
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+    if (state.state !== 'paused') {
+      const error =
+        state.state === 'playing' ? 'Already playing' : "Nothing to resume. Use 'strudel play <name>' to start.";
+      json(res, 409, { ok: false, error });
+      return;
+    }
+
+    const cycle = engine.getCycle();
+    engine.start();
+    state = { ...state, state: 'playing' };
+    runClock('paused');
+
+    resetInactivityTimer();
+    log(`Resumed at cycle ${cycle.toFixed(2)}`);
+    emitState('resume');
+    json(res, 200, { ok: true, state: 'playing', cycle });
+  } catch (err) {
+    log(`Resume error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleRestart(res: ServerResponse) {
+  try {
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+    if (state.state === 'stopped') {
+      json(res, 409, { ok: false, error: "Nothing to restart. Use 'strudel play <name>' to start." });
+      return;
+    }
+
+    // stop() rewinds the scheduler to cycle 0; the pattern stays loaded.
+    // A running timeline keeps the progress of its active step.
+    const timeline = activeTimeline();
+    const progress = timeline ? timelineProgress(timeline) : 0;
+    engine.stop();
+    engine.start();
+    state = { ...state, state: 'playing' };
+    resetClock(true);
+    if (timeline) {
+      timeline.since -= progress - timelineProgress(timeline);
+    }
+
+    resetInactivityTimer();
+    log('Restarted from cycle 0');
+    emitState('restart');
+    json(res, 200, { ok: true, state: 'playing' });
+  } catch (err) {
+    log(`Restart error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
 async function handleEvaluate(req: IncomingMessage, res: ServerResponse) {
   try {
     const body = await readBody(req);
-    const { code, name, version } = JSON.parse(body);
+    const { code, name, version, quantize = 0, fade = 0 } = JSON.parse(body);
 
     if (!code || typeof code !== 'string') {
       json(res, 400, { ok: false, error: 'Missing "code" in request body' });
       return;
     }
+    const invalid = checkAmount(quantize, 'quantize', 'cycles') ?? checkAmount(fade, 'fade', 'seconds');
+    if (invalid) {
+      json(res, 400, { ok: false, error: invalid });
+      return;
+    }
 
     if (!engine) {
       json(res, 500, { ok: false, error: 'Engine not initialized' });
       return;
     }
 
-    // Evaluate new code — Strudel's REPL seamlessly replaces the active pattern
-    // without stopping the scheduler, so the transition is smooth (no gap).
-    await engine.evaluate(code);
+    // A running sequence's next step would overwrite this code; a setlist
+    // keeps going and moves on to its next song as planned
+    if (isRunning(sequence)) {
+      finishTimeline(sequence, 'cancelled', `Replaced by an update of '${name || state.name || 'anonymous'}'`);
+    }
 
-    state = {
+    const next: DaemonState = {
       state: 'playing',
       name: name || state.name,
       version: version || state.version,
       code,
+      layers: state.layers,
     };
 
+    // Evaluate new code — Strudel's REPL seamlessly replaces the active pattern
+    // without stopping the scheduler, so the transition is smooth (no gap).
+    // With `quantize` this resolves only once the swap is audible.
+    if (quantize > 0) log(`Evaluate queued for the next ${quantize}-cycle boundary`);
+    const { cycle } = await applyPattern(next, { quantize, fade });
+
+    if (next.state === 'playing') runClock(state.state);
+    state = next;
+
     resetInactivityTimer();
-    log(`Evaluated: ${name || 'anonymous'} v${version || '?'}`);
-    json(res, 200, { ok: true });
+    log(`Evaluated: ${name || 'anonymous'} v${version || '?'}${quantize > 0 ? ` at cycle ${cycle}` : ''}`);
+    emitState('evaluate');
+    json(res, 200, { ok: true, cycle });
   } catch (err) {
     log(`Evaluate error: ${(err as Error).message}`);
+    emit({ type: 'error', action: 'evaluate', error: (err as Error).message, name: state.name, version: state.version });
     json(res, 500, { ok: false, error: (err as Error).message });
   }
 }
@@ -208,7 +760,9 @@ async function handleValidate(req: IncomingMessage, res: ServerResponse) {
     }
 
     const result = engine.validate(code);
-    log(`Validate: valid=${result.valid}${result.error ? ` error=${result.error}` : ''}`);
+    const warnings = result.warnings?.length ? ` warnings=${result.warnings.length}` : '';
+    log(`Validate: valid=${result.valid}${result.error ? ` error=${result.error}` : ''}${warnings}`);
+    emit({ type: 'validate', ...result });
     json(res, 200, { ok: true, ...result });
   } catch (err) {
     log(`Validate error: ${(err as Error).message}`);
@@ -216,6 +770,530 @@ async function handleValidate(req: IncomingMessage, res: ServerResponse) {
   }
 }
 
+function layersResponse(res: ServerResponse) {
+  json(res, 200, { ok: true, state: state.state, layers: state.layers ?? {} });
+}
+
+/**
+ * Apply a new layer configuration. Falls back to stopping when nothing is left to play.
+ */
+async function applyLayers(layers: Record<string, LayerSlot>) {
+  const next: DaemonState = { ...state, state: 'playing', layers };
+  if (!next.code && !hasLayers(next)) {
+    engine!.stop();
+    state = { state: 'stopped' };
+    resetClock(false);
+    return;
+  }
+  await applyPattern(next);
+  runClock(state.state);
+  state = next;
+}
+
+async function handleLayerAdd(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { slot, code, name, version } = JSON.parse(body);
+
+    if (!slot || typeof slot !== 'string') {
+      json(res, 400, { ok: false, error: 'Missing "slot" in request body' });
+      return;
+    }
+    if (!code || typeof code !== 'string') {
+      json(res, 400, { ok: false, error: 'Missing "code" in request body' });
+      return;
+    }
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+
+    const previous = state.layers?.[slot];
+    await applyLayers({
+      ...state.layers,
+      [slot]: { name, version, code, muted: previous?.muted ?? false, solo: previous?.solo ?? false },
+    });
+
+    resetInactivityTimer();
+    log(`Layer ${slot}: ${name} v${version}`);
+    emitState('layer');
+    layersResponse(res);
+  } catch (err) {
+    log(`Layer add error: ${(err as Error).message}`);
+    emit({ type: 'error', action: 'layer', error: (err as Error).message, name: state.name, version: state.version });
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleLayerRemove(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { slot } = JSON.parse(body);
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+    if (!state.layers?.[slot]) {
+      json(res, 404, { ok: false, error: `Layer '${slot}' not found` });
+      return;
+    }
+
+    const { [slot]: _removed, ...rest } = state.layers;
+    await applyLayers(rest);
+
+    resetInactivityTimer();
+    log(`Layer ${slot} removed`);
+    emitState('layer');
+    layersResponse(res);
+  } catch (err) {
+    log(`Layer remove error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleLayerToggle(req: IncomingMessage, res: ServerResponse, flag: 'muted' | 'solo') {
+  try {
+    const body = await readBody(req);
+    const { slot, on } = JSON.parse(body);
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+    if (!state.layers?.[slot]) {
+      json(res, 404, { ok: false, error: `Layer '${slot}' not found` });
+      return;
+    }
+
+    await applyLayers({ ...state.layers, [slot]: { ...state.layers[slot], [flag]: on !== false } });
+
+    resetInactivityTimer();
+    log(`Layer ${slot}: ${flag}=${on !== false}`);
+    emitState('layer');
+    layersResponse(res);
+  } catch (err) {
+    log(`Layer ${flag} error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleTempo(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { cps, ramp = 0 } = JSON.parse(body);
+
+    if (typeof cps !== 'number' || !Number.isFinite(cps) || cps <= 0) {
+      json(res, 400, { ok: false, error: '"cps" must be a positive number' });
+      return;
+    }
+    if (typeof ramp !== 'number' || !Number.isFinite(ramp) || ramp < 0) {
+      json(res, 400, { ok: false, error: '"ramp" must be a number of seconds >= 0' });
+      return;
+    }
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+
+    const from = engine.getCps();
+    engine.setCps(cps, ramp);
+
+    resetInactivityTimer();
+    log(`Tempo: ${from} → ${cps} cps${ramp > 0 ? ` over ${ramp}s` : ''}`);
+    emitState('tempo');
+    json(res, 200, { ok: true, from, cps, ramp });
+  } catch (err) {
+    log(`Tempo error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+/**
+ * Parse `steps` from a sequence request; returns an error message or the steps.
+ */
+function parseSequenceSteps(value: unknown): SequenceStep[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return '"steps" must be a non-empty array';
+  }
+  for (let i = 0; i < value.length; i++) {
+    const { version, delay, unit } = value[i] ?? {};
+    if (!Number.isInteger(version) || version < 1) {
+      return `Step ${i}: "version" must be a positive integer`;
+    }
+    if (unit !== 'seconds' && unit !== 'cycles') {
+      return `Step ${i}: "unit" must be "seconds" or "cycles"`;
+    }
+    const invalid = checkAmount(delay, 'delay', unit);
+    if (invalid || delay === undefined) {
+      return `Step ${i}: ${invalid ?? '"delay" is required'}`;
+    }
+  }
+  return value.map(({ version, delay, unit }) => ({ version, delay, unit }));
+}
+
+async function handleSequenceStart(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { name, steps, loop = false, quantize = 0, fade = 0, meta } = JSON.parse(body);
+
+    if (!name || typeof name !== 'string') {
+      json(res, 400, { ok: false, error: 'Missing "name" in request body' });
+      return;
+    }
+    const parsed = parseSequenceSteps(steps);
+    const invalid =
+      typeof parsed === 'string'
+        ? parsed
+        : loop === true && parsed.every((step) => step.delay === 0)
+          ? 'A looping sequence needs at least one step with a delay'
+          : (checkAmount(quantize, 'quantize', 'cycles') ?? checkAmount(fade, 'fade', 'seconds'));
+    if (invalid) {
+      json(res, 400, { ok: false, error: invalid });
+      return;
+    }
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+
+    cancelTimelines('Replaced by a new sequence');
+
+    const run = sequenceRun(
+      {
+        id: randomBytes(4).toString('hex'),
+        name,
+        steps: parsed as SequenceStep[],
+        loop: loop === true,
+        status: 'running',
+        step: 0,
+        pass: 0,
+        startedAt: new Date().toISOString(),
+      },
+      { quantize, fade },
+      meta,
+    );
+    sequence = run;
+    log(`Sequence ${run.job.id} started: ${name}, ${run.job.steps.length} step(s)${run.job.loop ? ', looping' : ''}`);
+
+    // The first step plays before we answer, so a bad version fails the request
+    await playTimelineStep(run);
+
+    json(res, 200, { ok: true, job: timelineSnapshot(run) });
+  } catch (err) {
+    log(`Sequence error: ${(err as Error).message}`);
+    emit({ type: 'error', action: 'sequence', error: (err as Error).message, name: state.name, version: state.version });
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+function handleSequenceStatus(res: ServerResponse) {
+  json(res, 200, { ok: true, job: sequence ? timelineSnapshot(sequence) : null });
+}
+
+async function handleSequenceCancel(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { id } = body ? JSON.parse(body) : {};
+
+    if (!isRunning(sequence)) {
+      json(res, 409, { ok: false, error: 'No sequence is running.' });
+      return;
+    }
+    if (id && id !== sequence.job.id) {
+      json(res, 409, { ok: false, error: `Sequence ${id} is not running (running: ${sequence.job.id}).` });
+      return;
+    }
+
+    finishTimeline(sequence, 'cancelled');
+    resetInactivityTimer();
+    emitState('sequence');
+    json(res, 200, { ok: true, job: timelineSnapshot(sequence) });
+  } catch (err) {
+    log(`Sequence cancel error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleSetlistPlay(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { setlist: name, steps, start = 0, loop = false, fade = 0 } = JSON.parse(body);
+
+    if (!name || typeof name !== 'string') {
+      json(res, 400, { ok: false, error: 'Missing "setlist" in request body' });
+      return;
+    }
+    if (!Array.isArray(steps) || steps.length === 0) {
+      json(res, 400, { ok: false, error: 'Setlist has no songs' });
+      return;
+    }
+    for (let i = 0; i < steps.length; i++) {
+      const { song, version, code, delay, unit } = steps[i] ?? {};
+      const invalid =
+        !song || typeof song !== 'string' || !code || typeof code !== 'string' || !Number.isInteger(version)
+          ? 'each step needs "song", "version" and "code"'
+          : unit !== 'seconds' && unit !== 'cycles'
+            ? '"unit" must be "seconds" or "cycles"'
+            : (checkAmount(delay, 'delay', unit) ?? (delay === undefined ? '"delay" is required' : null));
+      if (invalid) {
+        json(res, 400, { ok: false, error: `Step ${i}: ${invalid}` });
+        return;
+      }
+    }
+    if (!Number.isInteger(start) || start < 0 || start >= steps.length) {
+      json(res, 400, { ok: false, error: `"start" must be a step index below ${steps.length}` });
+      return;
+    }
+    const invalid = checkAmount(fade, 'fade', 'seconds');
+    if (invalid) {
+      json(res, 400, { ok: false, error: invalid });
+      return;
+    }
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+
+    cancelTimelines(`Replaced by setlist '${name}'`);
+
+    const run = setlistRun(
+      {
+        id: randomBytes(4).toString('hex'),
+        setlist: name,
+        steps: steps.map(({ song, version, delay, unit }: SetlistStep) => ({ song, version, delay, unit })),
+        loop: loop === true,
+        status: 'running',
+        step: start,
+        pass: 0,
+        startedAt: new Date().toISOString(),
+      },
+      steps.map((step: { code: string }) => step.code),
+      fade,
+    );
+    setlist = run;
+    log(`Setlist ${name} started (${run.job.id}): ${steps.length} song(s)${run.job.loop ? ', looping' : ''}`);
+
+    await playTimelineStep(run);
+
+    json(res, 200, { ok: true, job: timelineSnapshot(run) });
+  } catch (err) {
+    log(`Setlist error: ${(err as Error).message}`);
+    emit({ type: 'error', action: 'setlist', error: (err as Error).message, name: state.name, version: state.version });
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+function handleSetlistStatus(res: ServerResponse) {
+  json(res, 200, { ok: true, job: setlist ? timelineSnapshot(setlist) : null });
+}
+
+async function handleSetlistSkip(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { by } = JSON.parse(body);
+
+    if (!Number.isInteger(by) || by === 0) {
+      json(res, 400, { ok: false, error: '"by" must be a non-zero integer' });
+      return;
+    }
+    if (!isRunning(setlist)) {
+      json(res, 409, { ok: false, error: "No setlist is playing. Use 'strudel setlist play <name>' to start." });
+      return;
+    }
+    const { job } = setlist;
+    const target = job.step + by;
+    if (!job.loop && (target < 0 || target >= job.steps.length)) {
+      const error =
+        target < 0 ? 'Already at the first song.' : "Already at the last song. Use 'strudel setlist stop' to end.";
+      json(res, 409, { ok: false, error });
+      return;
+    }
+
+    await moveTimeline(setlist, by);
+
+    json(res, 200, { ok: true, job: timelineSnapshot(setlist) });
+  } catch (err) {
+    log(`Setlist skip error: ${(err as Error).message}`);
+    emit({ type: 'error', action: 'setlist', error: (err as Error).message, name: state.name, version: state.version });
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleVolume(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { volume, ramp = 0, muted, ceiling } = JSON.parse(body);
+
+    if (volume !== undefined && (typeof volume !== 'number' || !(volume >= 0 && volume <= 1))) {
+      json(res, 400, { ok: false, error: '"volume" must be a number between 0 and 1' });
+      return;
+    }
+    if (muted !== undefined && typeof muted !== 'boolean') {
+      json(res, 400, { ok: false, error: '"muted" must be true or false' });
+      return;
+    }
+    if (ceiling !== undefined && (typeof ceiling !== 'number' || !Number.isFinite(ceiling) || ceiling > 0)) {
+      json(res, 400, { ok: false, error: '"ceiling" must be a number of dBFS <= 0' });
+      return;
+    }
+    const invalid = checkAmount(ramp, 'ramp', 'seconds');
+    if (invalid) {
+      json(res, 400, { ok: false, error: invalid });
+      return;
+    }
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+
+    if (volume !== undefined) engine.setVolume(volume, ramp);
+    if (muted !== undefined) engine.setMuted(muted);
+    if (ceiling !== undefined) engine.setCeiling(ceiling);
+    const mixer = engine.getMixer();
+
+    resetInactivityTimer();
+    log(`Mixer: volume ${mixer.volume}${mixer.muted ? ' (muted)' : ''}, ceiling ${mixer.ceiling} dBFS`);
+    emitState('volume');
+    json(res, 200, { ok: true, mixer });
+  } catch (err) {
+    log(`Volume error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleRecordStart(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { out, bitDepth = 16 } = JSON.parse(body);
+
+    if (!out || typeof out !== 'string' || !isAbsolute(out)) {
+      json(res, 400, { ok: false, error: '"out" must be an absolute file path' });
+      return;
+    }
+    if (bitDepth !== 16 && bitDepth !== 24) {
+      json(res, 400, { ok: false, error: '"bitDepth" must be 16 or 24' });
+      return;
+    }
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+    if (recorder) {
+      const error = `Already recording to '${recorder.info().path}'. Use 'strudel record stop' first.`;
+      json(res, 409, { ok: false, error });
+      return;
+    }
+
+    const started: Recorder = await engine.record(out, bitDepth, () => void saveFullRecording(started));
+    recorder = started;
+
+    resetInactivityTimer();
+    log(`Recording to ${out} (${bitDepth}-bit)`);
+    emitState('record');
+    json(res, 200, { ok: true, recording: recorder.info() });
+  } catch (err) {
+    log(`Record error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+/**
+ * The recording reached the WAV size limit and stopped capturing — save it as it is.
+ */
+async function saveFullRecording(full: Recorder) {
+  if (recorder !== full) return;
+  recorder = null;
+  try {
+    const recording = await full.stop();
+    log(`Recording reached the 4 GB WAV limit and was saved: ${recording.path} (${recording.seconds.toFixed(1)}s)`);
+  } catch (err) {
+    log(`Recording error: ${(err as Error).message}`);
+  }
+  emitState('record');
+}
+
+async function handleRecordStop(res: ServerResponse) {
+  try {
+    if (!recorder) {
+      json(res, 409, { ok: false, error: "Not recording. Use 'strudel record start' to begin." });
+      return;
+    }
+
+    const stopping = recorder;
+    recorder = null;
+    const recording = await stopping.stop();
+
+    resetInactivityTimer();
+    log(`Recording saved: ${recording.path} (${recording.seconds.toFixed(1)}s)`);
+    emitState('record');
+    json(res, 200, { ok: true, recording });
+  } catch (err) {
+    log(`Record stop error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleOutput(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await readBody(req);
+    const { mode, host, port } = JSON.parse(body);
+
+    if (mode !== 'webaudio' && mode !== 'osc' && mode !== 'both') {
+      json(res, 400, { ok: false, error: '"mode" must be webaudio, osc or both' });
+      return;
+    }
+    if (host !== undefined && (typeof host !== 'string' || !host.trim())) {
+      json(res, 400, { ok: false, error: '"host" must be a non-empty string' });
+      return;
+    }
+    if (port !== undefined && !(Number.isInteger(port) && port >= 1 && port <= 65535)) {
+      json(res, 400, { ok: false, error: '"port" must be an integer between 1 and 65535' });
+      return;
+    }
+
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+
+    const current = engine.getOutput();
+    await engine.setOutput({ mode, host: host?.trim() ?? current.host, port: port ?? current.port });
+    const output = engine.getOutput();
+
+    resetInactivityTimer();
+    log(`Output: ${output.mode}${output.mode === 'webaudio' ? '' : ` → ${output.host}:${output.port}`}`);
+    emitState('output');
+    json(res, 200, { ok: true, output });
+  } catch (err) {
+    log(`Output error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
+async function handleReloadSamples(res: ServerResponse) {
+  try {
+    if (!engine) {
+      json(res, 500, { ok: false, error: 'Engine not initialized' });
+      return;
+    }
+
+    const banks = await engine.reloadSamples();
+    resetInactivityTimer();
+    log(`Reloaded local samples: ${banks.join(', ') || '(none)'}`);
+    json(res, 200, { ok: true, banks });
+  } catch (err) {
+    log(`Reload samples error: ${(err as Error).message}`);
+    json(res, 500, { ok: false, error: (err as Error).message });
+  }
+}
+
 // ── HTTP Server ──
 
 const server = createServer(async (req, res) => {
@@ -227,16 +1305,56 @@ const server = createServer(async (req, res) => {
       handleHealth(res);
     } else if (method === 'GET' && url === '/current') {
       handleCurrent(res);
+    } else if (method === 'GET' && url === '/events') {
+      handleEvents(req, res);
+    } else if (method === 'POST' && url === '/haps') {
+      await handleHaps(req, res);
     } else if (method === 'POST' && url === '/play') {
       await handlePlay(req, res);
     } else if (method === 'POST' && url === '/stop') {
-      await handleStop(res);
+      await handleStop(req, res);
     } else if (method === 'POST' && url === '/pause') {
       await handlePause(res);
+    } else if (method === 'POST' && url === '/resume') {
+      await handleResume(res);
+    } else if (method === 'POST' && url === '/restart') {
+      await handleRestart(res);
     } else if (method === 'POST' && url === '/evaluate') {
       await handleEvaluate(req, res);
     } else if (method === 'POST' && url === '/validate') {
       await handleValidate(req, res);
+    } else if (method === 'POST' && url === '/layers/add') {
+      await handleLayerAdd(req, res);
+    } else if (method === 'POST' && url === '/layers/remove') {
+      await handleLayerRemove(req, res);
+    } else if (method === 'POST' && url === '/layers/mute') {
+      await handleLayerToggle(req, res, 'muted');
+    } else if (method === 'POST' && url === '/layers/solo') {
+      await handleLayerToggle(req, res, 'solo');
+    } else if (method === 'POST' && url === '/tempo') {
+      await handleTempo(req, res);
+    } else if (method === 'POST' && url === '/volume') {
+      await handleVolume(req, res);
+    } else if (method === 'POST' && url === '/record/start') {
+      await handleRecordStart(req, res);
+    } else if (method === 'POST' && url === '/record/stop') {
+      await handleRecordStop(res);
+    } else if (method === 'POST' && url === '/output') {
+      await handleOutput(req, res);
+    } else if (method === 'POST' && url === '/sequence') {
+      await handleSequenceStart(req, res);
+    } else if (method === 'GET' && url === '/sequence') {
+      handleSequenceStatus(res);
+    } else if (method === 'POST' && url === '/sequence/cancel') {
+      await handleSequenceCancel(req, res);
+    } else if (method === 'POST' && url === '/setlist') {
+      await handleSetlistPlay(req, res);
+    } else if (method === 'GET' && url === '/setlist') {
+      handleSetlistStatus(res);
+    } else if (method === 'POST' && url === '/setlist/skip') {
+      await handleSetlistSkip(req, res);
+    } else if (method === 'POST' && url === '/samples/reload') {
+      await handleReloadSamples(res);
     } else {
       json(res, 404, { ok: false, error: 'Not found' });
     }
@@ -251,6 +1369,19 @@ const server = createServer(async (req, res) => {
 async function cleanup() {
   log('Cleaning up...');
 
+  cancelTimelines('Daemon shutting down');
+
+  // Finalize the WAV header so the file stays playable
+  if (recorder) {
+    try {
+      const recording = await recorder.stop();
+      log(`Recording saved: ${recording.path} (${recording.seconds.toFixed(1)}s)`);
+    } catch (err) {
+      log(`Recording error: ${(err as Error).message}`);
+    }
+    recorder = null;
+  }
+
   if (engine) {
     try {
       engine.stop();
@@ -265,6 +1396,11 @@ async function cleanup() {
     // File might not exist
   }
 
+  for (const client of eventClients) {
+    client.end();
+  }
+  eventClients.clear();
+
   server.close();
 }
 
@@ -0,0 +1,104 @@
+/**
+ * Line diff for song versions — LCS based, which is plenty for song-sized code.
+ */
+
+export interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+  /** 1-based line number in the old / new text (absent for lines not in that side) */
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Full line-by-line edit script from `a` to `b`.
+ */
+export function diffLines(a: string, b: string): DiffLine[] {
+  const x = a.split('\n');
+  const y = b.split('\n');
+
+  // lcs[i][j] = length of the LCS of x[i..] and y[j..]
+  const lcs: number[][] = Array.from({ length: x.length + 1 }, () => new Array(y.length + 1).fill(0));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i][j] = x[i] === y[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < x.length || j < y.length) {
+    if (i < x.length && j < y.length && x[i] === y[j]) {
+      out.push({ op: ' ', text: x[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (j < y.length && (i >= x.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      out.push({ op: '+', text: y[j], newLine: j + 1 });
+      j++;
+    } else {
+      out.push({ op: '-', text: x[i], oldLine: i + 1 });
+      i++;
+    }
+  }
+
+  // Within a run of changes, list removals before additions (as `diff -u` does)
+  for (let k = 0; k < out.length; ) {
+    if (out[k].op === ' ') {
+      k++;
+      continue;
+    }
+    let end = k;
+    while (end < out.length && out[end].op !== ' ') end++;
+    const run = out.slice(k, end);
+    out.splice(k, run.length, ...run.filter((l) => l.op === '-'), ...run.filter((l) => l.op === '+'));
+    k = end;
+  }
+
+  return out;
+}
+
+/**
+ * Group a diff into unified-diff hunks with `context` unchanged lines around each change.
+ */
+export function diffHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const changes = lines.flatMap((l, k) => (l.op === ' ' ? [] : [k]));
+  const hunks: DiffHunk[] = [];
+
+  let first = 0;
+  for (let c = 0; c < changes.length; c++) {
+    // A hunk ends where the gap to the next change is too wide for shared context
+    if (c + 1 < changes.length && changes[c + 1] - changes[c] <= context * 2 + 1) continue;
+    const slice = lines.slice(Math.max(0, changes[first] - context), changes[c] + context + 1);
+    const old = slice.filter((l) => l.op !== '+');
+    const neu = slice.filter((l) => l.op !== '-');
+    hunks.push({
+      oldStart: old[0]?.oldLine ?? 0,
+      oldCount: old.length,
+      newStart: neu[0]?.newLine ?? 0,
+      newCount: neu.length,
+      lines: slice,
+    });
+    first = c + 1;
+  }
+
+  return hunks;
+}
+
+/**
+ * Count added and removed lines.
+ */
+export function diffStat(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter((l) => l.op === '+').length,
+    removed: lines.filter((l) => l.op === '-').length,
+  };
+}
@@ -6,9 +6,43 @@
  */
 
 import './polyfill.js';
-import type { StrudelEngine, ValidationResult } from './types.js';
+import {
+  TEMPO_RAMP_STEP_MS,
+  SWAP_POLL_INTERVAL_MS,
+  DEFAULT_CEILING_DB,
+  DEFAULT_OSC_HOST,
+  DEFAULT_OSC_PORT,
+} from './constants.js';
+import { installSampleCache, isOffline, listSampleFolders, scanSampleFolder } from './samples.js';
+import { createMasterBus } from './master.js';
+import { startRecording } from './recorder.js';
+import { openOscOutput, type OscOutput } from './osc.js';
+import { lintCode, lintSounds } from './lint.js';
+import type {
+  StrudelEngine,
+  SwapOptions,
+  SwapResult,
+  ValidationResult,
+  OutputConfig,
+  SongEvent,
+  VizRequest,
+} from './types.js';
+
+// ── Shared Pipeline ──
+// The live engine (createEngine) and the offline renderer (render.ts) run code
+// through the same steps: load modules → register sounds → REPL → evaluate.
+
+export interface StrudelModules {
+  core: any;
+  mini: any;
+  webaudio: any;
+  transpilerFn: ((code: string) => unknown) | null;
+}
 
-export async function createEngine(): Promise<StrudelEngine> {
+/**
+ * Import the Strudel packages and register their exports on globalThis.
+ */
+export async function loadStrudel(): Promise<StrudelModules> {
   // Dynamic imports — Strudel modules read globalThis at import time,
   // so the polyfill MUST have run before these lines execute.
 
@@ -53,39 +87,64 @@ export async function createEngine(): Promise<StrudelEngine> {
     (mini as any).miniAllStrings();
   }
 
-  // Create a real AudioContext via node-web-audio-api
-  const { AudioContext: NodeAudioContext } = await import('node-web-audio-api');
-  const audioContext = new NodeAudioContext({
-    latencyHint: 'playback' as any,
-    sampleRate: 44100,
-  });
+  installVizHooks(core);
 
-  // In Node runtime, context may start suspended — resume explicitly
-  if (audioContext.state === 'suspended') {
-    await audioContext.resume();
-  }
+  const transpilerFn = (transpiler && (transpiler as any).transpiler) || null;
+  return { core, mini, webaudio, transpilerFn };
+}
 
-  // Set audio context for superdough/webaudio
-  if (typeof (webaudio as any).setDefaultAudioContext === 'function') {
-    (webaudio as any).setDefaultAudioContext(audioContext);
+// ── Visuals ──
+// @strudel/draw paints .pianoroll() / .punchcard() onto a browser canvas, which
+// only exists as a polyfill stub here. Instead the calls note what the code
+// asked for and leave the pattern as it is; `strudel viz` draws it in the terminal.
+
+let vizRequest: VizRequest | null = null;
+
+function installVizHooks(core: any): void {
+  const g = globalThis as Record<string, unknown>;
+  for (const mode of ['pianoroll', 'punchcard'] as const) {
+    core.Pattern.prototype[mode] = function (this: any, options: { cycles?: number; playhead?: number } = {}) {
+      vizRequest = { mode, cycles: options.cycles, playhead: options.playhead };
+      return this;
+    };
+    // Function forms, for `all(pianoroll)` and `all(punchcard({ cycles: 8 }))`
+    g[mode] = (arg: any) => (core.isPattern(arg) ? arg[mode]() : (pat: any) => pat[mode](arg));
   }
-  if (typeof (webaudio as any).setAudioContext === 'function') {
-    (webaudio as any).setAudioContext(audioContext);
+}
+
+/**
+ * The visual the code evaluated since the last call asked for, if any.
+ */
+export function takeVizRequest(): VizRequest | null {
+  const request = vizRequest;
+  vizRequest = null;
+  return request;
+}
+
+/**
+ * Register synths, sample libraries, soundfonts and drum-machine aliases.
+ */
+export async function registerSounds(webaudio: any): Promise<void> {
+  // Route every manifest/sample fetch through the on-disk cache first
+  const offline = await isOffline();
+  installSampleCache({ offline });
+  if (offline) {
+    console.log('[engine] Offline mode: serving samples from cache only');
   }
 
   // Register synth sounds (triangle, sawtooth, sine, square, noise)
-  if (typeof (webaudio as any).registerSynthSounds === 'function') {
+  if (typeof webaudio.registerSynthSounds === 'function') {
     try {
-      await (webaudio as any).registerSynthSounds();
+      await webaudio.registerSynthSounds();
     } catch {
       // May fail if some sounds need network — not critical
     }
   }
 
   // Register ZZFX sounds (z_sawtooth, z_sine, etc.)
-  if (typeof (webaudio as any).registerZZFXSounds === 'function') {
+  if (typeof webaudio.registerZZFXSounds === 'function') {
     try {
-      await (webaudio as any).registerZZFXSounds();
+      await webaudio.registerZZFXSounds();
     } catch {
       // Not critical
     }
@@ -94,7 +153,7 @@ export async function createEngine(): Promise<StrudelEngine> {
   // ── Supersaw compatibility alias ──
   // `supersaw` uses AudioWorklet (browser-only) so it silently fails in Node.
   // Re-register it (and common variants) to use the basic `sawtooth` oscillator.
-  const soundMap = (webaudio as any).soundMap;
+  const soundMap = webaudio.soundMap;
   if (soundMap && typeof soundMap.get === 'function') {
     const dict = soundMap.get();
     const sawEntry = dict?.['sawtooth'];
@@ -112,7 +171,7 @@ export async function createEngine(): Promise<StrudelEngine> {
 
   // Load default sample libraries — mirrors the browser REPL's prebake.mjs
   // Source: https://codeberg.org/uzu/strudel/src/branch/main/packages/repl/prebake.mjs
-  const samplesFn = (webaudio as any).samples;
+  const samplesFn = webaudio.samples;
   if (typeof samplesFn === 'function') {
     const ds = 'https://raw.githubusercontent.com/felixroos/dough-samples/main';
     const sampleSources = [
@@ -144,10 +203,10 @@ export async function createEngine(): Promise<StrudelEngine> {
   }
 
   // Register alias bank for drum machines
-  if (typeof (webaudio as any).aliasBank === 'function') {
+  if (typeof webaudio.aliasBank === 'function') {
     try {
       const ts = 'https://raw.githubusercontent.com/todepond/samples/main';
-      await (webaudio as any).aliasBank(`${ts}/tidal-drum-machines-alias.json`);
+      await webaudio.aliasBank(`${ts}/tidal-drum-machines-alias.json`);
     } catch {
       // Not critical
     }
@@ -156,42 +215,98 @@ export async function createEngine(): Promise<StrudelEngine> {
   // Also register on globalThis so user code can call samples()
   (globalThis as any).samples = samplesFn;
 
+  await registerLocalSamples(webaudio);
+}
+
+/**
+ * Register the local folders added via `strudel samples add` as sound banks.
+ * Returns the bank names that were loaded.
+ */
+export async function registerLocalSamples(webaudio: any): Promise<string[]> {
+  const loaded: string[] = [];
+  const folders = await listSampleFolders();
+  for (const [bank, folder] of Object.entries(folders)) {
+    try {
+      await webaudio.samples(await scanSampleFolder(bank, folder.path));
+      loaded.push(bank);
+      console.log(`[engine] Loaded local bank: ${bank} (${folder.path})`);
+    } catch (err: any) {
+      console.log(`[engine] Warning: local bank '${bank}' failed to load: ${err.message || err}`);
+    }
+  }
+  return loaded;
+}
+
+/**
+ * Create a Strudel REPL wired to the transpiler.
+ */
+export function createRepl(
+  mods: StrudelModules,
+  options: { defaultOutput: unknown; getTime: () => number },
+): any {
   // Create the REPL instance — transpiler is CRITICAL for:
   // - $: syntax (parallel patterns)
   // - multi-statement code (setcpm() + stack())
   // - double-quote → mini notation conversion
   // - return injection (wrapping last expression)
-  const replOptions: Record<string, unknown> = {
-    defaultOutput: (webaudio as any).webaudioOutput,
-    getTime: () => audioContext.currentTime,
+  const replOptions: Record<string, unknown> = { ...options };
+
+  // Tag every hap with the `$:` / `name:` layer it comes from. This runs right
+  // after the REPL installs its own `.p()` (what labels compile to), which
+  // passes each layer's id down as a query control — copy that onto the haps.
+  const { Pattern } = mods.core;
+  replOptions.beforeEval = () => {
+    const register = Pattern.prototype.p;
+    Pattern.prototype.p = function (this: any, id: unknown) {
+      const source = this;
+      const tagged = new Pattern(
+        (state: any) =>
+          source.query(state).map((hap: any) => hap.setContext({ ...hap.context, layer: state.controls.id })),
+        source._steps,
+      );
+      return register.call(tagged, id);
+    };
   };
 
-  const transpilerFn = transpiler && (transpiler as any).transpiler;
-  if (transpilerFn) {
-    replOptions.transpiler = transpilerFn;
+  if (mods.transpilerFn) {
+    replOptions.transpiler = mods.transpilerFn;
   }
-  const replInstance = (core as any).repl(replOptions);
+  const replInstance = mods.core.repl(replOptions);
 
   // Verify repl was created
   if (!replInstance || !replInstance.evaluate) {
     throw new Error('Failed to create Strudel REPL — no evaluate method');
   }
+  return replInstance;
+}
 
-  // ── Validation ──
-  // Uses the transpiler to pre-check code for syntax errors and
-  // mini-notation parse errors WITHOUT executing the code.
-  // Pre-process code for CLI input: CLI users pass code as a single line,
-  // but Strudel expects $: patterns on separate lines and proper statement separation.
-  const preprocessCode = (code: string): string => {
-    let result = code;
-    // Add newline before $: if preceded by non-whitespace (e.g., "setcpm(30) $:" → "setcpm(30)\n$:")
-    result = result.replace(/([^\n;])\s+\$:/g, '$1;\n$:');
-    // Add newline before _$: (muted patterns)
-    result = result.replace(/([^\n;])\s+_\$:/g, '$1;\n_$:');
-    return result;
-  };
+// ── Validation ──
+// Uses the transpiler to pre-check code for syntax errors and
+// mini-notation parse errors WITHOUT executing the code, then lints
+// it for calls to functions and methods that don't exist (warnings only).
 
-  const validate = (code: string): ValidationResult => {
+/**
+ * Pre-process code for CLI input: CLI users pass code as a single line,
+ * but Strudel expects $: patterns on separate lines and proper statement separation.
+ */
+export function preprocessCode(code: string): string {
+  let result = code;
+  // Add newline before $: if preceded by non-whitespace (e.g., "setcpm(30) $:" → "setcpm(30)\n$:")
+  result = result.replace(/([^\n;])\s+\$:/g, '$1;\n$:');
+  // Add newline before _$: (muted patterns)
+  result = result.replace(/([^\n;])\s+_\$:/g, '$1;\n_$:');
+  return result;
+}
+
+/**
+ * `getSounds` returns superdough's sound map; when given, the warnings also
+ * cover sound and bank names that aren't in it.
+ */
+export function createValidator(
+  transpilerFn: StrudelModules['transpilerFn'],
+  getSounds?: () => Record<string, unknown>,
+): (code: string) => ValidationResult {
+  return (code: string): ValidationResult => {
     const processed = preprocessCode(code);
     // Step 1: Try transpiling (catches JS syntax errors and mini-notation errors)
     if (transpilerFn) {
@@ -221,90 +336,505 @@ export async function createEngine(): Promise<StrudelEngine> {
       }
     }
 
+    // Step 3: Lint for unknown functions, methods and sounds. These are
+    // warnings, never failures — the lint can't see names the code only
+    // creates when it runs. Lint the code as written when it parses, so
+    // positions match what the user sees.
+    const warnings = lintCode(code) ?? lintCode(processed) ?? [];
+    if (getSounds) {
+      warnings.push(...(lintSounds(code, getSounds()) ?? lintSounds(processed, getSounds()) ?? []));
+    }
+    if (warnings.length > 0) {
+      warnings.sort((a, b) => a.line - b.line || a.column - b.column);
+      return { valid: true, warnings };
+    }
+
     return { valid: true };
   };
+}
+
+// ── Evaluate with error capture ──
+
+/**
+ * Evaluate code on a REPL and return the resulting pattern.
+ *
+ * Strudel REPL's evaluate() NEVER throws — it logs errors to console
+ * and resolves with undefined. We intercept console.error to capture
+ * these swallowed errors and throw them properly.
+ */
+export async function evaluateCode(
+  replInstance: any,
+  validate: (code: string) => ValidationResult,
+  code: string,
+  autostart = true,
+): Promise<any> {
+  // Pre-process for CLI single-line input
+  code = preprocessCode(code);
+  // Pre-validate: catches syntax and mini-notation errors before eval
+  const validation = validate(code);
+  if (!validation.valid) {
+    const loc = validation.line != null ? ` (line ${validation.line}, col ${validation.column})` : '';
+    throw new Error(`Syntax error${loc}: ${validation.error}`);
+  }
 
-  // ── Evaluate with error capture ──
-  // Strudel REPL's evaluate() NEVER throws — it logs errors to console
-  // and resolves with undefined. We intercept console.error to capture
-  // these swallowed errors and throw them properly.
-  const evaluate = async (code: string): Promise<void> => {
-    // Pre-process for CLI single-line input
-    code = preprocessCode(code);
-    // Pre-validate: catches syntax and mini-notation errors before eval
-    const validation = validate(code);
-    if (!validation.valid) {
-      const loc = validation.line != null ? ` (line ${validation.line}, col ${validation.column})` : '';
-      throw new Error(`Syntax error${loc}: ${validation.error}`);
+  // Intercept console to capture Strudel's swallowed errors.
+  // Strudel REPL logs errors in two parts:
+  //   console.log("%c[eval] error: <msg>", "background-color:...;color:...;...")
+  //   console.error("ErrorType: <msg>")
+  // We capture both and extract the clean error message.
+  const capturedErrors: string[] = [];
+  const origConsoleError = console.error;
+  const origConsoleLog = console.log;
+
+  console.error = (...args: any[]) => {
+    const firstArg = typeof args[0] === 'string' ? args[0] : String(args[0]);
+    // Strudel logs the raw Error object/message via console.error
+    if (firstArg.includes('Error:') || firstArg.includes('error')) {
+      capturedErrors.push(firstArg);
     }
+    origConsoleError.apply(console, args);
+  };
 
-    // Intercept console to capture Strudel's swallowed errors.
-    // Strudel REPL logs errors in two parts:
-    //   console.log("%c[eval] error: <msg>", "background-color:...;color:...;...")
-    //   console.error("ErrorType: <msg>")
-    // We capture both and extract the clean error message.
-    const capturedErrors: string[] = [];
-    const origConsoleError = console.error;
-    const origConsoleLog = console.log;
-
-    console.error = (...args: any[]) => {
-      const firstArg = typeof args[0] === 'string' ? args[0] : String(args[0]);
-      // Strudel logs the raw Error object/message via console.error
-      if (firstArg.includes('Error:') || firstArg.includes('error')) {
-        capturedErrors.push(firstArg);
-      }
-      origConsoleError.apply(console, args);
-    };
+  console.log = (...args: any[]) => {
+    const firstArg = typeof args[0] === 'string' ? args[0] : String(args[0]);
+    // Strudel logs "[eval] error: ..." via console.log with %c CSS
+    if (firstArg.includes('[eval] error:')) {
+      // Strip %c and extract the actual error message
+      const cleaned = firstArg.replace(/%c/g, '').trim();
+      capturedErrors.push(cleaned);
+    }
+    origConsoleLog.apply(console, args);
+  };
 
-    console.log = (...args: any[]) => {
-      const firstArg = typeof args[0] === 'string' ? args[0] : String(args[0]);
-      // Strudel logs "[eval] error: ..." via console.log with %c CSS
-      if (firstArg.includes('[eval] error:')) {
-        // Strip %c and extract the actual error message
-        const cleaned = firstArg.replace(/%c/g, '').trim();
-        capturedErrors.push(cleaned);
-      }
-      origConsoleLog.apply(console, args);
-    };
+  let pattern: any;
+  try {
+    pattern = await replInstance.evaluate(code, autostart);
+  } catch (err: any) {
+    // If REPL does throw (unlikely but possible), capture it
+    capturedErrors.push(err.message || String(err));
+  } finally {
+    // Restore console
+    console.error = origConsoleError;
+    console.log = origConsoleLog;
+  }
 
+  // If errors were captured, throw them
+  if (capturedErrors.length > 0) {
+    // Extract the most meaningful error message.
+    // Strudel logs errors in two parts:
+    //   "[eval] error: <short msg>"  (via console.log)
+    //   "ErrorType: <full msg>"      (via console.error)
+    // We prefer the [eval] error version as it's more concise.
+    const errorMsg = capturedErrors
+      .map(msg => {
+        // Clean up "[eval] error: " prefix
+        const cleaned = msg.replace(/^\[eval\] error:\s*/i, '').trim();
+        // Remove stack trace lines (keep first meaningful line)
+        const firstLine = cleaned.split('\n')[0].trim();
+        return firstLine;
+      })
+      .filter(Boolean);
+
+    // Deduplicate (Strudel logs error msg twice: once in [eval] and once as Error)
+    const unique = [...new Set(errorMsg)];
+
+    // Prefer the shorter/cleaner message (usually the [eval] error one)
+    const bestMsg = unique.reduce((a, b) => a.length <= b.length ? a : b, unique[0]);
+    throw new Error(`Evaluation error: ${bestMsg}`);
+  }
+
+  return pattern;
+}
+
+// ── Event Queries ──
+
+function pitchOf(core: any, value: Record<string, unknown>): number | null {
+  const { note, freq } = value;
+  if (typeof note === 'number' && Number.isFinite(note)) return note;
+  if (typeof note === 'string') {
     try {
-      await replInstance.evaluate(code);
-    } catch (err: any) {
-      // If REPL does throw (unlikely but possible), capture it
-      capturedErrors.push(err.message || String(err));
-    } finally {
-      // Restore console
-      console.error = origConsoleError;
-      console.log = origConsoleLog;
+      return core.noteToMidi(note);
+    } catch {
+      return null;
     }
+  }
+  if (typeof freq === 'number' && freq > 0) return core.freqToMidi(freq);
+  return null;
+}
 
-    // If errors were captured, throw them
-    if (capturedErrors.length > 0) {
-      // Extract the most meaningful error message.
-      // Strudel logs errors in two parts:
-      //   "[eval] error: <short msg>"  (via console.log)
-      //   "ErrorType: <full msg>"      (via console.error)
-      // We prefer the [eval] error version as it's more concise.
-      const errorMsg = capturedErrors
-        .map(msg => {
-          // Clean up "[eval] error: " prefix
-          const cleaned = msg.replace(/^\[eval\] error:\s*/i, '').trim();
-          // Remove stack trace lines (keep first meaningful line)
-          const firstLine = cleaned.split('\n')[0].trim();
-          return firstLine;
-        })
-        .filter(Boolean);
-
-      // Deduplicate (Strudel logs error msg twice: once in [eval] and once as Error)
-      const unique = [...new Set(errorMsg)];
-
-      // Prefer the shorter/cleaner message (usually the [eval] error one)
-      const bestMsg = unique.reduce((a, b) => a.length <= b.length ? a : b, unique[0]);
-      throw new Error(`Evaluation error: ${bestMsg}`);
+/**
+ * Events of `pattern` with an onset in [from, to), by onset time. With
+ * `sounding`, events that started earlier and still sound at `from` are included.
+ */
+export function queryEvents(
+  core: any,
+  pattern: any,
+  from: number,
+  to: number,
+  cps: number,
+  sounding = false,
+): SongEvent[] {
+  return pattern
+    .queryArc(from, to, { _cps: cps })
+    .filter((hap: any) => {
+      if (!hap.whole) return false;
+      // A note that began before the window shows up as a fragment starting at `from`
+      const carried = sounding && hap.part.begin.valueOf() <= from && hap.whole.end.valueOf() > from;
+      return hap.hasOnset() || carried;
+    })
+    .map((hap: any) => {
+      const value = typeof hap.value === 'object' ? { ...hap.value } : { value: hap.value };
+      return {
+        begin: hap.whole.begin.valueOf(),
+        end: hap.whole.end.valueOf(),
+        layer: hap.context.layer != null ? String(hap.context.layer) : null,
+        pitch: pitchOf(core, value),
+        value,
+      };
+    })
+    .sort((a: SongEvent, b: SongEvent) => a.begin - b.begin);
+}
+
+// ── Live Engine ──
+
+/**
+ * Limiter ceiling from $STRUDEL_CEILING (dBFS, <= 0), else the default.
+ */
+export function ceilingFromEnv(): number {
+  const db = Number(process.env.STRUDEL_CEILING);
+  return process.env.STRUDEL_CEILING && Number.isFinite(db) && db <= 0 ? db : DEFAULT_CEILING_DB;
+}
+
+export async function createEngine(): Promise<StrudelEngine> {
+  const mods = await loadStrudel();
+  const { webaudio } = mods;
+
+  // Create a real AudioContext via node-web-audio-api
+  const { AudioContext: NodeAudioContext } = await import('node-web-audio-api');
+  const audioContext = new NodeAudioContext({
+    latencyHint: 'playback' as any,
+    sampleRate: 44100,
+  });
+
+  // In Node runtime, context may start suspended — resume explicitly
+  if (audioContext.state === 'suspended') {
+    await audioContext.resume();
+  }
+
+  // Set audio context for superdough/webaudio
+  if (typeof webaudio.setDefaultAudioContext === 'function') {
+    webaudio.setDefaultAudioContext(audioContext);
+  }
+  if (typeof webaudio.setAudioContext === 'function') {
+    webaudio.setAudioContext(audioContext);
+  }
+
+  await registerSounds(webaudio);
+
+  const master = createMasterBus(audioContext, webaudio, {
+    volume: 1,
+    muted: false,
+    ceiling: ceilingFromEnv(),
+  });
+
+  // ── Output ──
+  // Every hap goes through `trigger`, which hands it to superdough, to OSC, or to both
+  let output: OutputConfig = { mode: 'webaudio', host: DEFAULT_OSC_HOST, port: DEFAULT_OSC_PORT };
+  let osc: OscOutput | null = null;
+
+  // A crossfade waiting for the first hap of the spliced pattern to pin it to the audio clock
+  let crossfadeCue: { cycle: number; run: (at: number) => void } | null = null;
+
+  const trigger = async (hap: any, deadline: number, duration: number, cps: number, t: number): Promise<void> => {
+    const swap: { bus: number; gain: number } | undefined = hap.context?.swap;
+    if (swap && crossfadeCue) {
+      const { cycle, run } = crossfadeCue;
+      crossfadeCue = null;
+      run(t + (cycle - hap.whole.begin.valueOf()) / cps);
+    }
+    if (output.mode !== 'webaudio') {
+      // OSC sounds have no swap bus — fade them by gain, per hap
+      const faded =
+        swap && swap.gain !== 1 && typeof hap.value === 'object' && hap.value !== null
+          ? hap.withValue((v: any) => ({ ...v, postgain: (v.postgain ?? 1) * swap.gain }))
+          : hap;
+      osc?.send(faded, deadline, cps);
+    }
+    if (output.mode !== 'osc') {
+      master.route(swap?.bus);
+      await webaudio.webaudioOutput(hap, deadline, duration, cps, t);
+    }
+  };
+
+  const setOutput = async (config: OutputConfig): Promise<void> => {
+    const previous = osc;
+    const sameTarget = previous && previous.target.host === config.host && previous.target.port === config.port;
+    if (config.mode === 'webaudio') {
+      osc = null;
+    } else if (!sameTarget) {
+      // Open the new socket first — if the host doesn't resolve, the old output keeps going
+      osc = await openOscOutput({ host: config.host, port: config.port }, mods.core.noteToMidi);
+    }
+    output = { ...config };
+    if (previous && previous !== osc) {
+      await previous.close();
+    }
+  };
+
+  const replInstance = createRepl(mods, {
+    defaultOutput: trigger,
+    getTime: () => audioContext.currentTime,
+  });
+
+  const validate = createValidator(mods.transpilerFn, () => webaudio.soundMap.get());
+
+  // Tempo set by the code (setcpm/setcps) wins over a ramp still in progress
+  let rampTimer: ReturnType<typeof setInterval> | null = null;
+  const cancelRamp = (): void => {
+    if (rampTimer) {
+      clearInterval(rampTimer);
+      rampTimer = null;
     }
   };
 
+  // ── Swaps: quantize & crossfade ──
+  // The new code is compiled (and installed) right away, then the scheduler gets
+  // a spliced pattern: old haps until the swap point, new haps from it on. With
+  // a fade the two overlap for the fade window: the old haps stay on the live
+  // swap bus, the new ones go to the idle one, and the master bus crossfades
+  // the two — held notes and effect tails included. Once the scheduler has
+  // queried past the window the plain new pattern takes over.
+
+  interface SwapStart {
+    prev: any;
+    prevCps: number;
+    quantize: number;
+    fade: number;
+  }
+  interface PendingSwap {
+    /** What will be playing once the scheduler reaches the swap point */
+    audible: { pattern: any; cps: number };
+    timer: ReturnType<typeof setInterval>;
+    /** Leave the scheduler in a clean state when the swap is abandoned */
+    settle: () => void;
+    /** Apply the change right away — playback is pausing and won't reach the swap point */
+    complete: () => void;
+    reject: (err: Error) => void;
+  }
+  let pendingSwap: PendingSwap | null = null;
+
+  const cancelSwap = (reason: string): void => {
+    if (!pendingSwap) return;
+    const { timer, settle, reject } = pendingSwap;
+    pendingSwap = null;
+    clearInterval(timer);
+    settle();
+    reject(new Error(reason));
+  };
+
+  /**
+   * Snapshot what is audible now, before a new pattern gets installed.
+   * Returns null when the change should apply immediately.
+   */
+  const beginSwap = (options: SwapOptions): SwapStart | null => {
+    const scheduler = replInstance.scheduler;
+    const audible = pendingSwap?.audible ?? { pattern: scheduler.pattern, cps: scheduler.cps };
+    cancelSwap('Superseded by a newer change');
+
+    const quantize = options.quantize ?? 0;
+    const fade = options.fade ?? 0;
+    if ((quantize <= 0 && fade <= 0) || !scheduler.started || !audible.pattern) return null;
+    return { prev: audible.pattern, prevCps: audible.cps, quantize, fade };
+  };
+
+  /** Tag each hap with its swap bus and its gain on the fade `curve` at its onset */
+  const onSwapBus = (pattern: any, bus: number, curve: (cycle: number) => number): any =>
+    pattern.withHap((hap: any) =>
+      hap.whole ? hap.setContext({ ...hap.context, swap: { bus, gain: curve(hap.whole.begin.valueOf()) } }) : hap,
+    );
+
+  const finishSwap = (swap: SwapStart | null): Promise<SwapResult> => {
+    const scheduler = replInstance.scheduler;
+    if (!swap) return Promise.resolve({ cycle: getCycle() });
+
+    const { prev, prevCps, quantize, fade } = swap;
+    const next = scheduler.pattern;
+    const nextCps = scheduler.cps;
+    // Keep the old tempo until the swap point too
+    if (nextCps !== prevCps) replInstance.setCps(prevCps);
+
+    // Swap point: the next boundary the scheduler hasn't queried past, or the
+    // first cycle it hasn't scheduled yet
+    let start = scheduler.lastEnd;
+    if (quantize > 0) {
+      start = (Math.floor(scheduler.now() / quantize) + 1) * quantize;
+      while (start < scheduler.lastEnd) start += quantize;
+    }
+    const end = start + fade * prevCps;
+    const onset = (hap: any) => hap.whole?.begin.valueOf();
+    const outgoing = prev.filterHaps((hap: any) => onset(hap) < end);
+    const incoming = next.filterHaps((hap: any) => onset(hap) >= start);
+
+    const from = master.liveBus();
+    const to = 1 - from;
+    if (end > start) {
+      const x = (cycle: number) => Math.min(1, Math.max(0, (cycle - start) / (end - start)));
+      scheduler.setPattern(
+        mods.core.stack(
+          onSwapBus(outgoing, from, (c) => Math.cos((x(c) * Math.PI) / 2)),
+          onSwapBus(incoming, to, (c) => Math.sin((x(c) * Math.PI) / 2)),
+        ),
+      );
+      crossfadeCue = { cycle: start, run: (at) => master.crossfade(to, at, fade) };
+    } else {
+      scheduler.setPattern(mods.core.stack(outgoing, incoming));
+    }
+
+    return new Promise((resolve, reject) => {
+      let switched = false;
+      let done = false;
+      const pending: PendingSwap = {
+        audible: { pattern: prev, cps: prevCps },
+        timer: setInterval(() => {
+          if (!switched && scheduler.lastEnd >= start) {
+            switched = true;
+            pending.audible = { pattern: next, cps: nextCps };
+            if (nextCps !== prevCps) replInstance.setCps(nextCps);
+          }
+          if (switched && !done && scheduler.lastEnd >= end) {
+            done = true;
+            scheduler.setPattern(next);
+            // Nothing sounded in the fade window — just cut over
+            if (end > start && crossfadeCue) {
+              crossfadeCue = null;
+              master.crossfade(to, 0, 0);
+            }
+          }
+          if (done && scheduler.now() >= end) {
+            clearInterval(pending.timer);
+            pendingSwap = null;
+            resolve({ cycle: start });
+          }
+        }, SWAP_POLL_INTERVAL_MS),
+        settle: () => {
+          crossfadeCue = null;
+          if (!switched) {
+            // The change never became audible — drop it
+            scheduler.setPattern(prev);
+            replInstance.setCps(prevCps);
+            if (end > start) master.crossfade(from, 0, 0);
+          } else if (!done) {
+            // Mid-fade — cut the old pattern's tail
+            scheduler.setPattern(next);
+            master.crossfade(to, 0, 0);
+          }
+        },
+        complete: () => {
+          clearInterval(pending.timer);
+          pendingSwap = null;
+          crossfadeCue = null;
+          scheduler.setPattern(next);
+          if (nextCps !== prevCps) replInstance.setCps(nextCps);
+          if (end > start) master.crossfade(to, 0, 0);
+          // Not audible yet — it takes over where playback will resume
+          resolve({ cycle: switched ? start : scheduler.lastEnd, paused: true });
+        },
+        reject,
+      };
+      pendingSwap = pending;
+    });
+  };
+
+  /**
+   * Install new code through `install`, fading in from silence or swapping as `options` ask.
+   */
+  const transition = async (options: SwapOptions, install: () => Promise<void>): Promise<SwapResult> => {
+    cancelRamp();
+    const fadeIn = !replInstance.scheduler.started && (options.fade ?? 0) > 0;
+    const swap = beginSwap(options);
+    if (fadeIn) await master.fadeTo(0);
+    await install();
+    // Also lifts a stop fade-out that is still in progress
+    void master.fadeTo(1, fadeIn ? options.fade : 0);
+    return finishSwap(swap);
+  };
+
+  // What the playing code's .pianoroll() / .punchcard() asked for; kept when an evaluation fails
+  let viz: VizRequest | null = null;
+
+  const evaluate = (code: string, options: SwapOptions = {}): Promise<SwapResult> =>
+    transition(options, async () => {
+      takeVizRequest();
+      await evaluateCode(replInstance, validate, code);
+      viz = takeVizRequest();
+    });
+
+  // ── Layers ──
+  // A second REPL compiles each layer's code into a pattern without ever
+  // starting its scheduler. The patterns are stacked onto the live scheduler.
+  let layerRepl: any = null;
+  // Tempo the layer being compiled set via setcpm()/setcps(), if any
+  let layerCps: number | null = null;
+
+  /**
+   * Compile one layer at tempo `cps`; also returns the tempo the layer sets itself, if any.
+   */
+  const compileLayer = async (code: string, cps: number): Promise<{ pattern: any; cps: number | null }> => {
+    if (!layerRepl) {
+      layerRepl = createRepl(mods, {
+        defaultOutput: trigger,
+        getTime: () => audioContext.currentTime,
+      });
+      const scheduler = layerRepl.scheduler;
+      const setCps = scheduler.setCps.bind(scheduler);
+      scheduler.setCps = (cps: number) => {
+        layerCps = cps;
+        setCps(cps);
+      };
+    }
+    // Start from the tempo that will play, so .cpm() scales against it
+    layerCps = null;
+    layerRepl.scheduler.cps = cps;
+    try {
+      const pattern = await evaluateCode(layerRepl, validate, code, false);
+      return { pattern: pattern ?? mods.core.silence, cps: layerCps };
+    } finally {
+      // Creating/evaluating on the layer REPL re-points Strudel's global clock
+      // and tempo hooks at it — hand them back to the live scheduler
+      mods.core.setTime(() => replInstance.scheduler.now());
+      mods.core.setCpsFunc(() => replInstance.scheduler.cps);
+    }
+  };
+
+  const evaluateLayers = (layers: { name: string; code: string }[], options: SwapOptions = {}): Promise<SwapResult> =>
+    transition(options, async () => {
+      takeVizRequest();
+      const patterns: any[] = [];
+      let cps: number | null = null;
+      for (const { name, code } of layers) {
+        const compiled = await compileLayer(code, cps ?? replInstance.scheduler.cps);
+        // Prefix the layer's own `$:` labels with its name, so lanes stay apart
+        patterns.push(
+          compiled.pattern.withHap((hap: any) => {
+            const layer = hap.context.layer != null ? `${name}/${hap.context.layer}` : name;
+            return hap.setContext({ ...hap.context, layer });
+          }),
+        );
+        // First layer that sets a tempo decides it
+        if (cps == null && compiled.cps != null) cps = compiled.cps;
+      }
+
+      if (cps != null) {
+        replInstance.setCps(cps);
+      }
+      const pattern = patterns.length > 0 ? mods.core.stack(...patterns) : mods.core.silence;
+      await replInstance.setPattern(pattern, true);
+      viz = takeVizRequest();
+    });
+
   const stop = (): void => {
+    cancelRamp();
+    cancelSwap('Playback stopped');
     try {
       if (replInstance.stop) {
         replInstance.stop();
@@ -329,9 +859,12 @@ export async function createEngine(): Promise<StrudelEngine> {
     } catch {
       // Best effort
     }
+    // A paused scheduler never reaches the swap point — don't leave the caller waiting
+    pendingSwap?.complete();
   };
 
   const start = (): void => {
+    void master.fadeTo(1);
     try {
       if (replInstance.start) {
         replInstance.start();
@@ -343,5 +876,65 @@ export async function createEngine(): Promise<StrudelEngine> {
     }
   };
 
-  return { evaluate, validate, stop, pause, start };
+  const fadeOut = (seconds: number): Promise<void> => master.fadeTo(0, seconds);
+
+  const reloadSamples = (): Promise<string[]> => registerLocalSamples(webaudio);
+
+  const getCycle = (): number => {
+    try {
+      const scheduler = replInstance.scheduler;
+      // now() reads 0 while paused — the last queried cycle is where it will resume
+      return Number(scheduler.started ? scheduler.now() : scheduler.lastEnd);
+    } catch {
+      return 0;
+    }
+  };
+
+  // ── Tempo ──
+  // The scheduler re-anchors its cycle position on every cps change, so a ramp
+  // is just a series of small setCps() steps.
+
+  const getCps = (): number => Number(replInstance.scheduler.cps);
+
+  const setCps = (cps: number, rampSeconds = 0): void => {
+    cancelRamp();
+    const from = getCps();
+    if (rampSeconds <= 0 || !Number.isFinite(from) || from <= 0) {
+      replInstance.setCps(cps);
+      return;
+    }
+
+    const startedAt = Date.now();
+    rampTimer = setInterval(() => {
+      const t = Math.min(1, (Date.now() - startedAt) / (rampSeconds * 1000));
+      replInstance.setCps(from + (cps - from) * t);
+      if (t >= 1) cancelRamp();
+    }, TEMPO_RAMP_STEP_MS);
+  };
+
+  return {
+    evaluate,
+    evaluateLayers,
+    validate,
+    stop,
+    pause,
+    start,
+    fadeOut,
+    reloadSamples,
+    getCycle,
+    getCps,
+    setCps,
+    getMixer: () => master.mixer(),
+    setVolume: (volume, rampSeconds) => master.setVolume(volume, rampSeconds),
+    setMuted: (muted) => master.setMuted(muted),
+    setCeiling: (db) => master.setCeiling(db),
+    record: (path, bitDepth, onFull) => startRecording(audioContext, master.output, path, bitDepth, onFull),
+    getOutput: () => ({ ...output }),
+    setOutput,
+    queryEvents: (from, to) => {
+      const pattern = replInstance.scheduler.pattern;
+      return pattern ? queryEvents(mods.core, pattern, from, to, getCps(), true) : [];
+    },
+    getViz: () => viz,
+  };
 }
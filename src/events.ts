@@ -0,0 +1,49 @@
+/**
+ * Offline event queries — evaluates a song's code without playing it and
+ * lists the events (haps) its pattern produces, tagged with the `$:` layer
+ * each one comes from.
+ *
+ * Used by the exporters and inspectors that need to see the notes rather
+ * than hear them. The sound card is never touched.
+ */
+
+import { loadStrudel, createRepl, createValidator, evaluateCode, queryEvents } from './engine.js';
+import type { SongEvent } from './types.js';
+
+export interface SongEvents {
+  /** Tempo the code sets (setcpm/setcps), cycles per second */
+  cps: number;
+  /** Layers with events in range, by first event (code order at equal onsets) */
+  layers: (string | null)[];
+  /** Events with an onset in range, by onset time */
+  events: SongEvent[];
+}
+
+/**
+ * Evaluate `code` and collect the events with an onset in [from, from + cycles).
+ */
+export async function querySong(code: string, options: { from?: number; cycles: number }): Promise<SongEvents> {
+  const { from = 0, cycles } = options;
+
+  const mods = await loadStrudel();
+  const { core, webaudio } = mods;
+  const { OfflineAudioContext } = await import('node-web-audio-api');
+
+  // Code may call samples() and friends — keep superdough away from the sound card
+  webaudio.setAudioContext(new OfflineAudioContext(2, 1, 44100));
+
+  const replInstance = createRepl(mods, {
+    defaultOutput: () => {},
+    getTime: () => 0,
+  });
+  const pattern = await evaluateCode(replInstance, createValidator(mods.transpilerFn), code, false);
+  if (!pattern) {
+    throw new Error('Evaluation error: code did not produce a pattern');
+  }
+  const cps: number = replInstance.scheduler.cps;
+
+  const events = queryEvents(core, pattern, from, from + cycles, cps);
+  const layers = [...new Set(events.map((e) => e.layer))];
+
+  return { cps, layers, events };
+}
@@ -0,0 +1,529 @@
+/**
+ * Lint pass for song code — parses it the way the transpiler does and flags
+ * calls to functions and methods Strudel doesn't define, with the nearest
+ * name that does exist. Findings are warnings: the lint only sees the code,
+ * so it never decides on its own whether a song may be saved or played.
+ *
+ * Names are checked against what is registered at the time of the call
+ * (globalThis and Pattern.prototype), so sample-bank helpers and anything
+ * added by later loads count too. Common mistakes carried over from other
+ * tools (`.reverb()`, `.bpm()`, …) get a tailored fix.
+ *
+ * A second pass checks the sound and bank names given to s() / sound() /
+ * .bank() against superdough's sound map — a misspelled sound doesn't throw,
+ * it just stays silent.
+ */
+
+import { getLineInfo, parse } from 'acorn';
+import type { LintIssue } from './types.js';
+
+/** Defined by the REPL on its first evaluate — a fresh daemon validates before that */
+const REPL_FUNCTIONS = ['all', 'each', 'hush', 'cpm', 'setCps', 'setcps', 'setCpm', 'setcpm'];
+const REPL_METHODS = ['p', 'q', 'cpm'];
+
+/** Global functions that build a pattern from scratch (besides the controls, which are methods too) */
+const PATTERN_FUNCTIONS = [
+  'stack',
+  'cat',
+  'seq',
+  'sequence',
+  'fastcat',
+  'slowcat',
+  'timecat',
+  'timeCat',
+  'arrange',
+  'polymeter',
+  'mini',
+  'm',
+  'h',
+  'pure',
+  'reify',
+  'run',
+  'irand',
+  'chooseCycles',
+];
+
+/** Prototypes whose methods can be called on values in song code besides patterns */
+const BUILTIN_PROTOTYPES = [
+  Object.prototype,
+  Function.prototype,
+  String.prototype,
+  Number.prototype,
+  Array.prototype,
+  Promise.prototype,
+  RegExp.prototype,
+  Map.prototype,
+  Set.prototype,
+  Date.prototype,
+];
+
+const BUILTIN_METHODS = new Set(BUILTIN_PROTOTYPES.flatMap((proto) => Object.getOwnPropertyNames(proto)));
+
+/** Synth names people reach for that superdough spells out */
+const WAVEFORMS: Record<string, string> = { saw: 'sawtooth', sin: 'sine', sqr: 'square', tri: 'triangle' };
+
+interface Fix {
+  /** Replacement, written as a method (`.room()`) unless it is a plain function */
+  fix?: string;
+  note?: string;
+}
+
+/**
+ * Names from other tools (and other Strudel versions) that don't exist here,
+ * as listed in STRUDEL_LLM_GUIDE.md. `arg` is the first argument when it is a literal.
+ */
+const KNOWN_MISTAKES: Record<string, (arg: unknown) => Fix> = {
+  reverb: () => ({ fix: '.room()', note: 'reverb send 0-1; .roomsize() sets the size' }),
+  lowpass: () => ({ fix: '.lpf()', note: 'cutoff in Hz' }),
+  highpass: () => ({ fix: '.hpf()', note: 'cutoff in Hz' }),
+  bandpass: () => ({ fix: '.bpf()', note: 'center frequency in Hz' }),
+  bpm: (arg) => ({
+    fix: typeof arg === 'number' ? `setcpm(${Math.round((arg / 4) * 100) / 100})` : 'setcpm()',
+    note: 'tempo is set once for the whole song, in cycles per minute: bpm / 4 in 4/4',
+  }),
+  tempo: (arg) => KNOWN_MISTAKES.bpm(arg),
+  setTempo: (arg) => KNOWN_MISTAKES.bpm(arg),
+  volume: () => ({ fix: '.gain()', note: '`strudel volume` sets the master level' }),
+  synth: (arg) => ({
+    fix: typeof arg === 'string' ? `.sound(${JSON.stringify(WAVEFORMS[arg] ?? arg)})` : '.sound()',
+    note: 'synth waveforms are sine, triangle, sawtooth and square',
+  }),
+  vibrato: () => ({ fix: '.vib()', note: 'vibrato rate in Hz' }),
+  bitcrush: () => ({ fix: '.crush()', note: 'bit depth: 1 is drastic, 16 subtle' }),
+  chorus: () => ({ note: 'there is no chorus effect; try .jux(x => x.add(.1)) or .phaser()' }),
+  play: () => ({ note: 'not needed, code plays as soon as it is evaluated' }),
+  start: () => KNOWN_MISTAKES.play(undefined),
+};
+
+type Node = { type: string; [key: string]: any };
+
+/** Visit every node of the tree, parents before children */
+function walk(node: Node, visit: (node: Node) => void): void {
+  visit(node);
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc') continue;
+    const children = Array.isArray(value) ? value : [value];
+    for (const child of children) {
+      if (child && typeof child === 'object' && typeof child.type === 'string') walk(child, visit);
+    }
+  }
+}
+
+/** Identifiers bound by a declaration pattern (`a`, `{ a, b: [c] }`, `...rest`, `a = 1`) */
+function boundNames(pattern: Node | null, names: Set<string>): void {
+  if (!pattern) return;
+  switch (pattern.type) {
+    case 'Identifier':
+      names.add(pattern.name);
+      break;
+    case 'ObjectPattern':
+      pattern.properties.forEach((p: Node) => boundNames(p.type === 'RestElement' ? p : p.value, names));
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach((e: Node | null) => boundNames(e, names));
+      break;
+    case 'RestElement':
+      boundNames(pattern.argument, names);
+      break;
+    case 'AssignmentPattern':
+      boundNames(pattern.left, names);
+      break;
+  }
+}
+
+/**
+ * Everything the code defines itself: variables, functions, parameters,
+ * property names of its own objects and classes, and pattern methods it
+ * adds with register(). Scopes are ignored — a name
+ * declared anywhere counts everywhere, which keeps false alarms out.
+ */
+function declaredNames(ast: Node): { variables: Set<string>; properties: Set<string> } {
+  const variables = new Set<string>();
+  const properties = new Set<string>();
+  walk(ast, (node) => {
+    switch (node.type) {
+      case 'VariableDeclarator':
+        boundNames(node.id, variables);
+        break;
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        boundNames(node.id, variables);
+        node.params.forEach((p: Node) => boundNames(p, variables));
+        break;
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        boundNames(node.id, variables);
+        break;
+      case 'CatchClause':
+        boundNames(node.param, variables);
+        break;
+      case 'ImportSpecifier':
+      case 'ImportDefaultSpecifier':
+      case 'ImportNamespaceSpecifier':
+        boundNames(node.local, variables);
+        break;
+      case 'AssignmentExpression':
+        // `x = …` without a declaration, and `obj.method = …`
+        boundNames(node.left, variables);
+        if (node.left.type === 'MemberExpression' && !node.left.computed) properties.add(node.left.property.name);
+        break;
+      case 'Property':
+      case 'MethodDefinition':
+      case 'PropertyDefinition':
+        if (!node.computed && node.key.type === 'Identifier') properties.add(node.key.name);
+        break;
+      case 'CallExpression':
+        // register('crunch', (x, pat) => …) adds .crunch() to every pattern
+        if (node.callee.type === 'Identifier' && node.callee.name === 'register') {
+          const arg = node.arguments[0];
+          const names = arg?.type === 'ArrayExpression' ? arg.elements : [arg];
+          for (const name of names) {
+            if (name?.type === 'Literal' && typeof name.value === 'string') properties.add(name.value);
+          }
+        }
+        break;
+    }
+  });
+  return { variables, properties };
+}
+
+/** Every property name reachable through `value`'s prototype chain */
+function propertyNames(value: object): Set<string> {
+  const names = new Set<string>();
+  for (let o: object | null = value; o; o = Object.getPrototypeOf(o)) {
+    Object.getOwnPropertyNames(o).forEach((name) => names.add(name));
+  }
+  return names;
+}
+
+/** Edit distance where swapping two neighbouring letters (`fsat`) counts as one edit */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * The candidate closest to `name`, if it is close enough to be a typo:
+ * same letters in another case, or a few edits apart for longer names.
+ * Ties go to the candidate nearest in length, then to the one listed first.
+ */
+export function nearestName(name: string, candidates: Iterable<string>): string | null {
+  const lower = name.toLowerCase();
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    if (candidate.startsWith('_') || candidate === 'constructor') continue;
+    const distance = editDistance(lower, candidate.toLowerCase());
+    const closer =
+      distance < bestDistance ||
+      (distance === bestDistance &&
+        best !== null &&
+        Math.abs(candidate.length - name.length) < Math.abs(best.length - name.length));
+    if (closer) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= limit ? best : null;
+}
+
+function parseCode(code: string): Node | null {
+  try {
+    // Same options as @strudel/transpiler
+    return parse(code, { ecmaVersion: 2022, allowAwaitOutsideFunction: true, locations: true }) as unknown as Node;
+  } catch {
+    return null;
+  }
+}
+
+/** First argument of a call, when it is a literal */
+function literalArg(call: Node): unknown {
+  const arg = call.arguments[0];
+  return arg?.type === 'Literal' ? arg.value : undefined;
+}
+
+/**
+ * Check the functions and methods `code` calls. Returns null for code that
+ * doesn't parse — reporting syntax errors is the transpiler's job.
+ */
+export function lintCode(code: string): LintIssue[] | null {
+  const ast = parseCode(code);
+  if (!ast) return null;
+
+  const g = globalThis as Record<string, any>;
+  const core = g.Pattern ? propertyNames(g.Pattern.prototype) : new Set<string>();
+  const { variables, properties } = declaredNames(ast);
+  const methods = new Set([...core, ...REPL_METHODS, ...properties, ...BUILTIN_METHODS]);
+
+  /**
+   * Whether an expression is known to evaluate to a pattern: a mini-notation
+   * string, a global pattern or pattern function, or a pattern method called
+   * on one of those. Anything else (variables, `new Date()`, …) could be any
+   * kind of value, so its methods aren't checked.
+   */
+  const isPattern = (node: Node): boolean => {
+    switch (node.type) {
+      case 'Literal':
+        // Double quotes are mini-notation; 'single quotes' stay plain strings
+        return typeof node.value === 'string' && node.raw.startsWith('"');
+      case 'TemplateLiteral':
+        return node.expressions.length === 0;
+      case 'Identifier':
+        return !variables.has(node.name) && g.Pattern != null && g[node.name] instanceof g.Pattern;
+      case 'CallExpression': {
+        const callee = node.callee;
+        if (callee.type === 'Identifier') {
+          if (variables.has(callee.name) || typeof g[callee.name] !== 'function') return false;
+          return core.has(callee.name) || PATTERN_FUNCTIONS.includes(callee.name);
+        }
+        if (callee.type !== 'MemberExpression' || callee.computed || callee.property.type !== 'Identifier') return false;
+        const method = callee.property.name;
+        // The known mistakes are meant as pattern methods — keep checking the chain past them
+        const patternMethod =
+          core.has(method) || properties.has(method) || REPL_METHODS.includes(method) || Object.hasOwn(KNOWN_MISTAKES, method);
+        return patternMethod && isPattern(callee.object);
+      }
+      default:
+        return false;
+    }
+  };
+
+  const functions = () => [
+    ...REPL_FUNCTIONS,
+    ...variables,
+    ...Object.getOwnPropertyNames(g).filter((key) => typeof g[key] === 'function'),
+  ];
+
+  const issues: LintIssue[] = [];
+  const report = (call: Node, at: Node, name: string, method: boolean, candidates: () => Iterable<string>) => {
+    const { line, column } = at.loc.start;
+    const message = method ? `Unknown method .${name}()` : `Unknown function ${name}()`;
+    const known = Object.hasOwn(KNOWN_MISTAKES, name) ? KNOWN_MISTAKES[name](literalArg(call)) : null;
+    if (known) {
+      // A method-style fix reads as a plain function call when the mistake was one
+      const fix = method || !known.fix?.startsWith('.') ? known.fix : known.fix.slice(1);
+      issues.push({ message, fix, note: known.note, line, column });
+      return;
+    }
+    const nearest = nearestName(name, candidates());
+    issues.push({ message, fix: nearest ? (method ? `.${nearest}()` : `${nearest}()`) : undefined, line, column });
+  };
+
+  walk(ast, (node) => {
+    if (node.type !== 'CallExpression') return;
+    const callee = node.callee;
+
+    if (callee.type === 'Identifier') {
+      if (variables.has(callee.name) || REPL_FUNCTIONS.includes(callee.name) || callee.name in g) return;
+      report(node, callee, callee.name, false, functions);
+      return;
+    }
+
+    if (callee.type !== 'MemberExpression' || callee.computed || callee.property.type !== 'Identifier') return;
+    const name = callee.property.name;
+    const object = callee.object;
+    // Calls on a global object (Math.flor(), console.lgo()) can be checked against the object itself
+    if (object.type === 'Identifier' && !variables.has(object.name) && object.name in g && g[object.name] != null) {
+      const target = g[object.name];
+      if (typeof target === 'object' || typeof target === 'function') {
+        if (name in target || methods.has(name)) return;
+        report(node, callee.property, name, true, () => propertyNames(target));
+        return;
+      }
+    }
+    if (methods.has(name) || !isPattern(object)) return;
+    report(node, callee.property, name, true, () => core);
+  });
+
+  // The walk reaches the outermost call of a chain first
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * One-line description of an issue, e.g.
+ * "Unknown method .reverb() — use .room() (reverb send 0-1; .roomsize() sets the size)".
+ */
+export function formatLintIssue(issue: LintIssue): string {
+  if (issue.fix && issue.note) return `${issue.message} — use ${issue.fix} (${issue.note})`;
+  if (issue.fix) return `${issue.message} — did you mean ${issue.fix}?`;
+  if (issue.note) return `${issue.message} — ${issue.note}`;
+  return issue.message;
+}
+
+// ── Sounds ──
+
+type SoundMap = Record<string, any>;
+
+/** Mini-notation rests — not sound names */
+const RESTS = ['~', '-', '_'];
+
+const bankCache = new WeakMap<SoundMap, Map<string, string>>();
+
+/**
+ * Banks in the sound map (the part of `<bank>_<sound>` keys before the first
+ * `_`, drum-machine aliases included), keyed lower-case. The keys themselves
+ * are lower-cased by superdough; the value is the bank's own spelling, taken
+ * from its sample paths (…/RolandTR909/…) when they have it.
+ */
+function soundBanks(sounds: SoundMap): Map<string, string> {
+  let banks = bankCache.get(sounds);
+  if (banks) return banks;
+  banks = new Map();
+  for (const [key, entry] of Object.entries(sounds)) {
+    const split = key.indexOf('_');
+    if (split <= 0) continue;
+    const bank = key.slice(0, split);
+    if (banks.has(bank)) continue;
+    const samples = entry?.data?.samples;
+    const url = Array.isArray(samples) ? samples[0] : samples ? Object.values(samples).flat()[0] : undefined;
+    const spelled = typeof url === 'string' ? url.split('/').find((part) => part.toLowerCase() === bank) : undefined;
+    banks.set(bank, spelled ?? bank);
+  }
+  bankCache.set(sounds, banks);
+  return banks;
+}
+
+/**
+ * A registered name for an unknown one: a likely typo first, then the first
+ * name (in registration order) containing every `_`-separated part of it —
+ * `gm_piano` → `gm_acoustic_grand_piano`, `TR909` → `RolandTR909`.
+ */
+function suggestName(name: string, candidates: string[]): string | null {
+  const near = nearestName(name, candidates);
+  if (near) return near;
+  const parts = name.toLowerCase().split('_').filter(Boolean);
+  return candidates.find((c) => parts.every((part) => c.toLowerCase().includes(part))) ?? null;
+}
+
+/** Name of the function or method a call invokes */
+function calleeName(call: Node): string | null {
+  const callee = call.callee;
+  if (callee.type === 'Identifier') return callee.name;
+  if (callee.type === 'MemberExpression' && !callee.computed && callee.property.type === 'Identifier') {
+    return callee.property.name;
+  }
+  return null;
+}
+
+/** The calls a method call is chained onto: `a().b().c()` → b(), a() for c() */
+function chainedCalls(call: Node): Node[] {
+  const calls: Node[] = [];
+  for (let node = call.callee.object; node?.type === 'CallExpression'; node = node.callee.object) {
+    calls.push(node);
+  }
+  return calls;
+}
+
+interface NameAt {
+  name: string;
+  /** Offset in the code */
+  offset: number;
+}
+
+/**
+ * The names in a string argument, every atom of its mini-notation
+ * (`"<bd sd:3> ~ hh*2"` → bd, sd, hh). Other arguments have none we can know.
+ */
+function miniNames(arg: Node | undefined): NameAt[] {
+  const g = globalThis as Record<string, any>;
+  let value: string;
+  if (arg?.type === 'Literal' && typeof arg.value === 'string') {
+    value = arg.value;
+  } else if (arg?.type === 'TemplateLiteral' && arg.expressions.length === 0) {
+    value = arg.quasis[0].value.cooked;
+  } else {
+    return [];
+  }
+
+  const quoted = `"${value}"`;
+  let leaves: any[];
+  try {
+    leaves = g.getLeaves(quoted);
+  } catch {
+    // Mini-notation errors are the transpiler's to report
+    return [];
+  }
+  return leaves
+    .map((leaf) => ({
+      // `bd:3` is sample 3 of bd
+      name: String(leaf.source_).split(':')[0],
+      offset: g.getLeafLocation(quoted, leaf, arg.start)[0],
+    }))
+    .filter(({ name }) => /[a-z]/i.test(name) && !RESTS.includes(name));
+}
+
+/**
+ * Check the sounds and banks `code` names in s() / sound() / .bank() against
+ * `sounds` (superdough's sound map). Returns null for code that doesn't parse.
+ */
+export function lintSounds(code: string, sounds: SoundMap): LintIssue[] | null {
+  const ast = parseCode(code);
+  if (!ast) return null;
+  if (typeof (globalThis as any).getLeaves !== 'function') return [];
+
+  const calls: Node[] = [];
+  walk(ast, (node) => {
+    if (node.type === 'CallExpression') calls.push(node);
+  });
+  // Sounds the code loads itself only exist once it has run
+  if (calls.some((call) => call.callee.type === 'Identifier' && call.callee.name === 'samples')) return [];
+
+  const banks = soundBanks(sounds);
+  const issues: LintIssue[] = [];
+  const report = (at: NameAt, message: string, fix: string | null) => {
+    const { line, column } = getLineInfo(code, at.offset);
+    issues.push({ message, fix: fix ?? undefined, line, column });
+  };
+
+  for (const call of calls) {
+    const kind = calleeName(call);
+    if (kind === 'bank') {
+      for (const bank of miniNames(call.arguments[0])) {
+        if (banks.has(bank.name.toLowerCase())) continue;
+        report(bank, `Unknown bank '${bank.name}'`, suggestName(bank.name, [...banks.values()]));
+      }
+      continue;
+    }
+    if (kind !== 's' && kind !== 'sound') continue;
+
+    // .bank() prefixes the sound wherever it sits in the chain — look both ways
+    const bankCalls = [
+      ...chainedCalls(call),
+      ...calls.filter((other) => chainedCalls(other).includes(call)),
+    ].filter((other) => calleeName(other) === 'bank');
+    const bankNames = bankCalls
+      .flatMap((other) => miniNames(other.arguments[0]))
+      .map(({ name }) => name.toLowerCase())
+      .filter((name) => banks.has(name));
+
+    for (const sound of miniNames(call.arguments[0])) {
+      const name = sound.name.toLowerCase();
+      if (bankNames.length === 0) {
+        if (name in sounds) continue;
+        report(sound, `Unknown sound '${sound.name}'`, suggestName(sound.name, Object.keys(sounds)));
+        continue;
+      }
+      for (const bank of bankNames) {
+        if (`${bank}_${name}` in sounds) continue;
+        const inBank = Object.keys(sounds)
+          .filter((key) => key.startsWith(`${bank}_`))
+          .map((key) => key.slice(bank.length + 1));
+        report(sound, `No sound '${sound.name}' in bank ${banks.get(bank)}`, suggestName(sound.name, inBank));
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,230 @@
+/**
+ * Master bus — the engine's own output stage, spliced in between superdough's
+ * output and the sound card:
+ *
+ *   superdough destinationGain ─┐
+ *                               ├→ swap bus gains → fade → volume → mute → limiter → clip → audioContext.destination
+ *   spare destinationGain ──────┘
+ *
+ * Fades act on everything that is sounding, including note tails and effects.
+ * The two swap buses each have their own set of orbits (with their own reverb
+ * and delay): a crossfade plays the new pattern on the idle bus and ramps the
+ * buses against each other, so held notes and effect tails of the old pattern
+ * fade out with it.
+ * The limiter is a fast compressor with its threshold at the ceiling: below
+ * it the signal passes through unchanged, peaks above it are pulled down to
+ * it. The hard clip exactly at the ceiling catches what the limiter's attack
+ * lets through — whatever the code does (a stray `.gain(8)`), no sample
+ * leaves the engine above the ceiling.
+ */
+
+import type { MixerState } from './types.js';
+
+const LIMITER_RATIO = 20;
+const LIMITER_ATTACK_SECONDS = 0.001;
+const LIMITER_RELEASE_SECONDS = 0.1;
+/**
+ * Clip transfer curve over inputs -2..2 (in units of the ceiling): identity
+ * up to ±1, flat beyond. Inputs past the ends of a curve read its end values.
+ */
+const CLIP_CURVE = new Float32Array([-0.5, -0.5, 0, 0.5, 0.5]);
+/** Short ramp for mute/unmute so they don't click */
+const MUTE_RAMP_SECONDS = 0.02;
+/** Equal-power crossfade curves */
+const CROSSFADE_STEPS = 64;
+const FADE_IN_CURVE = Float32Array.from({ length: CROSSFADE_STEPS + 1 }, (_, i) =>
+  Math.sin(((i / CROSSFADE_STEPS) * Math.PI) / 2),
+);
+const FADE_OUT_CURVE = FADE_IN_CURVE.slice().reverse();
+
+export interface MasterBus {
+  /** Ramp the master level to `value` over `seconds` (0 = jump); resolves when reached */
+  fadeTo(value: number, seconds?: number): Promise<void>;
+  /** Current master level (0-1) */
+  level(): number;
+  setVolume(volume: number, seconds?: number): void;
+  setMuted(muted: boolean): void;
+  /** Limiter ceiling in dBFS (<= 0) */
+  setCeiling(db: number): void;
+  mixer(): MixerState;
+  /** Swap bus the playing pattern is routed to (0 or 1) */
+  liveBus(): number;
+  /**
+   * Swap bus for the next superdough trigger (default: the live one). Superdough
+   * picks its orbit synchronously, so set this right before each trigger.
+   */
+  route(bus?: number): void;
+  /**
+   * Fade swap bus `to` in and the other one out over `seconds`, starting at
+   * audio time `at` (0 seconds = cut); `to` becomes the live bus.
+   */
+  crossfade(to: number, at: number, seconds: number): void;
+  /** Last node before the destination — tap it to capture exactly what is heard */
+  output: any;
+}
+
+/**
+ * A DynamicsCompressorNode adds makeup gain of (1 / gain at full scale)^0.6
+ * (Web Audio spec, "compression curve"). Undo it so nothing below the
+ * threshold changes level.
+ */
+function makeupCompensation(thresholdDb: number): number {
+  const fullScaleGainDb = thresholdDb * (1 - 1 / LIMITER_RATIO);
+  return Math.pow(10, (0.6 * fullScaleGainDb) / 20);
+}
+
+export function createMasterBus(audioContext: any, webaudio: any, initial: MixerState): MasterBus {
+  const state: MixerState = { ...initial };
+
+  const fade = audioContext.createGain();
+  const volume = audioContext.createGain();
+  volume.gain.value = state.volume;
+  const mute = audioContext.createGain();
+  mute.gain.value = state.muted ? 0 : 1;
+
+  const limiter = audioContext.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.ratio.value = LIMITER_RATIO;
+  limiter.attack.value = LIMITER_ATTACK_SECONDS;
+  limiter.release.value = LIMITER_RELEASE_SECONDS;
+  const makeup = audioContext.createGain();
+
+  // A WaveShaper reads its curve over inputs -1..1: scale the ceiling to 0.5
+  // on the way in and back on the way out. The curve never changes (it can
+  // only be assigned once), so a new ceiling only moves these gains.
+  const clipInput = audioContext.createGain();
+  const clip = audioContext.createWaveShaper();
+  clip.curve = CLIP_CURVE;
+  const clipOutput = audioContext.createGain();
+
+  const applyCeiling = (db: number) => {
+    const ceiling = Math.pow(10, db / 20);
+    limiter.threshold.value = db;
+    makeup.gain.value = makeupCompensation(db);
+    clipInput.gain.value = 1 / (2 * ceiling);
+    clipOutput.gain.value = 2 * ceiling;
+  };
+  applyCeiling(state.ceiling);
+
+  fade.connect(volume);
+  volume.connect(mute);
+  mute.connect(limiter);
+  limiter.connect(makeup);
+  makeup.connect(clipInput);
+  clipInput.connect(clip);
+  clip.connect(clipOutput);
+  clipOutput.connect(audioContext.destination);
+
+  // Superdough connects its output straight to the destination — re-route it,
+  // also after any later rebuild of its output graph
+  const routeOutput = (output: any, input: any) => {
+    const reroute = () => {
+      output.destinationGain.disconnect();
+      output.destinationGain.connect(input);
+    };
+    const initializeAudio = output.initializeAudio.bind(output);
+    output.initializeAudio = () => {
+      initializeAudio();
+      reroute();
+    };
+    reroute();
+  };
+
+  // ── Swap buses ──
+  // Bus 0 is superdough's own audio controller, bus 1 a spare one of the same
+  // class. Orbits (and ducking, which targets them) go to whichever bus `route`
+  // picked; everything else stays on superdough's controller.
+  const controller = webaudio.getSuperdoughAudioController();
+  const spare = new controller.constructor(audioContext);
+  const buses = [controller, spare].map((c, i) => {
+    const gain = audioContext.createGain();
+    gain.gain.value = i === 0 ? 1 : 0;
+    gain.connect(fade);
+    routeOutput(c.output, gain);
+    return { getOrbit: c.getOrbit.bind(c), duck: c.duck.bind(c), gain };
+  });
+  let live = 0;
+  let routed = 0;
+  controller.getOrbit = (...args: any[]) => buses[routed].getOrbit(...args);
+  controller.duck = (...args: any[]) => buses[routed].duck(...args);
+  const reset = controller.reset.bind(controller);
+  controller.reset = () => {
+    reset();
+    spare.reset();
+  };
+
+  const crossfade = (to: number, at: number, seconds: number) => {
+    live = to;
+    const now = audioContext.currentTime;
+    const start = Math.max(at, now);
+    buses.forEach(({ gain }, i) => {
+      const param = gain.gain;
+      param.cancelScheduledValues(now);
+      if (seconds <= 0) {
+        param.setValueAtTime(i === to ? 1 : 0, now);
+        return;
+      }
+      param.setValueAtTime(i === to ? 0 : 1, now);
+      param.setValueCurveAtTime(i === to ? FADE_IN_CURVE : FADE_OUT_CURVE, start, seconds);
+    });
+  };
+
+  /** Move an AudioParam from where it is now to `value` over `seconds` (0 = jump) */
+  const rampParam = (param: any, value: number, seconds: number) => {
+    const now = audioContext.currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    if (seconds <= 0) {
+      param.setValueAtTime(value, now);
+    } else {
+      param.linearRampToValueAtTime(value, now + seconds);
+    }
+  };
+
+  let fadeTimer: ReturnType<typeof setTimeout> | null = null;
+  let settle: (() => void) | null = null;
+
+  const fadeTo = (value: number, seconds = 0): Promise<void> => {
+    // A new fade replaces the one in progress; its caller is released right away
+    if (fadeTimer) clearTimeout(fadeTimer);
+    settle?.();
+
+    rampParam(fade.gain, value, seconds);
+    if (seconds <= 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      settle = () => {
+        fadeTimer = null;
+        settle = null;
+        resolve();
+      };
+      fadeTimer = setTimeout(() => settle?.(), seconds * 1000);
+    });
+  };
+
+  return {
+    fadeTo,
+    level: () => Number(fade.gain.value),
+    setVolume: (value, seconds = 0) => {
+      state.volume = value;
+      rampParam(volume.gain, value, seconds);
+    },
+    setMuted: (muted) => {
+      state.muted = muted;
+      rampParam(mute.gain, muted ? 0 : 1, MUTE_RAMP_SECONDS);
+    },
+    setCeiling: (db) => {
+      state.ceiling = db;
+      applyCeiling(db);
+    },
+    mixer: () => ({ ...state }),
+    liveBus: () => live,
+    route: (bus) => {
+      routed = bus ?? live;
+    },
+    crossfade,
+    output: clipOutput,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Standard MIDI File (format 1) writer for song events.
+ *
+ * - Track 1 carries the tempo (a cycle is one 4/4 bar, like `strudel tempo`);
+ *   every layer then gets a track of its own.
+ * - Pitched events play on the layer's channel; drum sounds (`bd`, `hh`, …)
+ *   go to channel 10 as General MIDI percussion.
+ * - Events with neither a pitch nor a drum mapping are left out.
+ */
+
+import type { SongEvents } from './events.js';
+import type { SongEvent } from './types.js';
+
+const TICKS_PER_BEAT = 480;
+const BEATS_PER_CYCLE = 4;
+const TICKS_PER_CYCLE = TICKS_PER_BEAT * BEATS_PER_CYCLE;
+/** 0-based channel 9 is MIDI channel 10, reserved for percussion */
+const DRUM_CHANNEL = 9;
+
+/** General MIDI percussion keys for Strudel's drum names (and a few spelled-out aliases) */
+const GM_DRUMS: Record<string, number> = {
+  bd: 36,
+  kick: 36,
+  rim: 37,
+  sd: 38,
+  snare: 38,
+  cp: 39,
+  clap: 39,
+  lt: 45,
+  hh: 42,
+  hihat: 42,
+  mt: 47,
+  tom: 47,
+  oh: 46,
+  openhat: 46,
+  ht: 50,
+  cr: 49,
+  crash: 49,
+  rd: 51,
+  ride: 51,
+  tb: 54,
+  tambourine: 54,
+  cb: 56,
+  cowbell: 56,
+  sh: 70,
+  shaker: 70,
+};
+
+/**
+ * GM percussion key for a sound name: exact match first, then without any
+ * `<bank>_` prefix and digits (`RolandTR909_bd`, `808bd`, `hh27`).
+ */
+export function drumKey(sound: string): number | null {
+  const name = sound.toLowerCase();
+  const bare = name.split('_').pop()!.replace(/\d+/g, '');
+  return GM_DRUMS[name] ?? GM_DRUMS[bare] ?? null;
+}
+
+export interface MidiExport {
+  smf: Buffer;
+  /** Notes written, per layer track */
+  tracks: { layer: string | null; notes: number }[];
+  /** Events without a pitch or drum mapping */
+  skipped: number;
+}
+
+interface MidiEvent {
+  tick: number;
+  /** Raw event bytes (status + data) */
+  bytes: number[];
+}
+
+/** Variable-length quantity, as used for delta times and meta lengths */
+function vlq(value: number): number[] {
+  const out = [value & 0x7f];
+  for (let v = value >>> 7; v > 0; v >>>= 7) {
+    out.unshift((v & 0x7f) | 0x80);
+  }
+  return out;
+}
+
+function metaText(type: number, text: string): number[] {
+  const bytes = [...Buffer.from(text, 'utf-8')];
+  return [0xff, type, ...vlq(bytes.length), ...bytes];
+}
+
+function trackChunk(events: MidiEvent[]): Buffer {
+  const data: number[] = [];
+  let last = 0;
+  for (const event of events) {
+    data.push(...vlq(event.tick - last), ...event.bytes);
+    last = event.tick;
+  }
+  data.push(0x00, 0xff, 0x2f, 0x00); // end of track
+
+  const header = Buffer.alloc(8);
+  header.write('MTrk', 0, 'ascii');
+  header.writeUInt32BE(data.length, 4);
+  return Buffer.concat([header, Buffer.from(data)]);
+}
+
+function velocityOf(value: Record<string, unknown>): number {
+  const gain = typeof value.gain === 'number' ? value.gain : 1;
+  const velocity = typeof value.velocity === 'number' ? value.velocity : 1;
+  return Math.max(1, Math.min(127, Math.round(gain * velocity * 127)));
+}
+
+/**
+ * Channel-voice note on/off pair for an event, or null if it can't be played as MIDI.
+ */
+function noteEvents(event: SongEvent, channel: number, from: number): MidiEvent[] | null {
+  const sound = typeof event.value.s === 'string' ? event.value.s : null;
+  let key: number | null = null;
+  if (event.pitch != null) {
+    key = Math.round(event.pitch);
+  } else if (sound) {
+    key = drumKey(sound);
+    channel = DRUM_CHANNEL;
+  }
+  if (key == null || key < 0 || key > 127) return null;
+
+  // superdough stretches notes by `clip` (alias `legato`)
+  const clip = [event.value.clip, event.value.legato].find((v) => typeof v === 'number') as number | undefined;
+  const start = Math.round((event.begin - from) * TICKS_PER_CYCLE);
+  const length = (event.end - event.begin) * (clip ?? 1);
+  const end = Math.max(start + 1, Math.round((event.begin - from + length) * TICKS_PER_CYCLE));
+
+  return [
+    { tick: start, bytes: [0x90 | channel, key, velocityOf(event.value)] },
+    { tick: end, bytes: [0x80 | channel, key, 0] },
+  ];
+}
+
+/**
+ * Encode queried song events as a multi-track SMF. `from` is the cycle that becomes tick 0.
+ */
+export function encodeMidi(song: SongEvents, options: { name: string; from?: number }): MidiExport {
+  const { name, from = 0 } = options;
+
+  const microsPerBeat = Math.round(1_000_000 / (song.cps * BEATS_PER_CYCLE));
+  const tempo = [(microsPerBeat >> 16) & 0xff, (microsPerBeat >> 8) & 0xff, microsPerBeat & 0xff];
+  const conductor: MidiEvent[] = [
+    { tick: 0, bytes: metaText(0x03, name) },
+    { tick: 0, bytes: [0xff, 0x51, 0x03, ...tempo] },
+    { tick: 0, bytes: [0xff, 0x58, 0x04, BEATS_PER_CYCLE, 2, 24, 8] }, // 4/4
+  ];
+
+  const chunks: Buffer[] = [trackChunk(conductor)];
+  const tracks: MidiExport['tracks'] = [];
+  let skipped = 0;
+
+  song.layers.forEach((layer, index) => {
+    // One channel per layer, stepping over the percussion channel
+    const channel = (index + (index >= DRUM_CHANNEL ? 1 : 0)) % 16;
+    const events: MidiEvent[] = [];
+    let notes = 0;
+    for (const event of song.events.filter((e) => e.layer === layer)) {
+      const pair = noteEvents(event, channel, from);
+      if (!pair) {
+        skipped++;
+        continue;
+      }
+      events.push(...pair);
+      notes++;
+    }
+    // Note-offs before note-ons on the same tick, so repeated notes retrigger
+    events.sort((a, b) => a.tick - b.tick || (a.bytes[0] & 0xf0) - (b.bytes[0] & 0xf0));
+    chunks.push(trackChunk([{ tick: 0, bytes: metaText(0x03, layer ?? name) }, ...events]));
+    tracks.push({ layer, notes });
+  });
+
+  const header = Buffer.alloc(14);
+  header.write('MThd', 0, 'ascii');
+  header.writeUInt32BE(6, 4);
+  header.writeUInt16BE(1, 8); // format 1: simultaneous tracks
+  header.writeUInt16BE(chunks.length, 10);
+  header.writeUInt16BE(TICKS_PER_BEAT, 12);
+
+  return { smf: Buffer.concat([header, ...chunks]), tracks, skipped };
+}
@@ -0,0 +1,173 @@
+/**
+ * OSC output — sends haps to SuperDirt (or anything else that speaks its
+ * protocol) as `/dirt/play` messages over UDP.
+ *
+ * Each event goes out as a bundle time-tagged with its onset, so SuperDirt
+ * plays it on time no matter how early the scheduler queried it.
+ */
+
+import { createSocket, type Socket } from 'node:dgram';
+import { lookup } from 'node:dns/promises';
+import type { OscTarget } from './types.js';
+
+export type OscArg = string | number;
+
+/** Seconds from the NTP epoch (1900) to the Unix epoch (1970) */
+const NTP_UNIX_OFFSET = 2208988800;
+/** SuperDirt counts `note` in semitones from middle C; Strudel counts MIDI numbers */
+const DIRT_NOTE_OFFSET = 60;
+
+// ── Encoding ──
+
+/** OSC string: UTF-8, NUL-terminated, padded to a multiple of 4 bytes */
+function oscString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf-8');
+  const out = Buffer.alloc((Math.floor(bytes.length / 4) + 1) * 4);
+  bytes.copy(out);
+  return out;
+}
+
+/**
+ * Encode an OSC message. Integers are sent as int32, other numbers as float32.
+ */
+export function encodeMessage(address: string, args: OscArg[]): Buffer {
+  let tags = ',';
+  const data: Buffer[] = [];
+  for (const arg of args) {
+    if (typeof arg === 'string') {
+      tags += 's';
+      data.push(oscString(arg));
+    } else if (Number.isInteger(arg) && Math.abs(arg) < 2 ** 31) {
+      tags += 'i';
+      const b = Buffer.alloc(4);
+      b.writeInt32BE(arg);
+      data.push(b);
+    } else {
+      tags += 'f';
+      const b = Buffer.alloc(4);
+      b.writeFloatBE(arg);
+      data.push(b);
+    }
+  }
+  return Buffer.concat([oscString(address), oscString(tags), ...data]);
+}
+
+/**
+ * Wrap messages in an OSC bundle to be executed at `timeMs` (Unix ms).
+ */
+export function encodeBundle(timeMs: number, messages: Buffer[]): Buffer {
+  const seconds = timeMs / 1000 + NTP_UNIX_OFFSET;
+  const timetag = Buffer.alloc(8);
+  timetag.writeUInt32BE(Math.floor(seconds) >>> 0, 0);
+  timetag.writeUInt32BE(Math.floor((seconds % 1) * 2 ** 32) >>> 0, 4);
+
+  const parts: Buffer[] = [oscString('#bundle'), timetag];
+  for (const message of messages) {
+    const size = Buffer.alloc(4);
+    size.writeInt32BE(message.length);
+    parts.push(size, message);
+  }
+  return Buffer.concat(parts);
+}
+
+// ── Haps ──
+
+/**
+ * The control map SuperDirt expects for a hap:
+ * - `cps`, `cycle` and `delta` (event length in seconds) alongside the hap's own controls
+ * - note names become numbers, shifted so that middle C is 0
+ * - `.bank()` is folded into the sound name, as superdough resolves it (`<bank>_<s>`)
+ * - values OSC can't carry (objects, functions) are dropped
+ */
+export function dirtControls(
+  hap: any,
+  cps: number,
+  noteToMidi: (note: string) => number,
+): Record<string, OscArg> {
+  hap.ensureObjectValue();
+  const value: Record<string, unknown> = { ...hap.value };
+
+  if (typeof value.note === 'string') {
+    value.note = noteToMidi(value.note);
+  }
+  if (typeof value.note === 'number') {
+    value.note -= DIRT_NOTE_OFFSET;
+  }
+  if (typeof value.bank === 'string' && typeof value.s === 'string') {
+    value.s = `${value.bank}_${value.s}`;
+  }
+  delete value.bank;
+  if (value.roomsize !== undefined) {
+    value.size = value.roomsize;
+    delete value.roomsize;
+  }
+
+  const controls: Record<string, OscArg> = {
+    cps,
+    cycle: hap.wholeOrPart().begin.valueOf(),
+    delta: hap.duration.valueOf() / cps,
+  };
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v === 'string' || (typeof v === 'number' && Number.isFinite(v))) {
+      controls[key] = v;
+    } else if (typeof v === 'boolean') {
+      controls[key] = v ? 1 : 0;
+    }
+  }
+  return controls;
+}
+
+// ── Output ──
+
+export interface OscOutput {
+  target: OscTarget;
+  /** Send a hap due `deadline` seconds from now */
+  send: (hap: any, deadline: number, cps: number) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Open a UDP socket towards `target`. The host is resolved once, up front,
+ * so a typo fails here rather than on every event.
+ */
+export async function openOscOutput(
+  target: OscTarget,
+  noteToMidi: (note: string) => number,
+): Promise<OscOutput> {
+  const { address, family } = await lookup(target.host).catch(() => {
+    throw new Error(`Cannot resolve OSC host '${target.host}'.`);
+  });
+
+  const socket: Socket = createSocket(family === 6 ? 'udp6' : 'udp4');
+  // Don't let a dangling socket keep the process alive
+  socket.unref();
+
+  let lastError: string | null = null;
+  const report = (err: Error) => {
+    // Report each distinct error once — a dead target would otherwise log on every event
+    if (err.message === lastError) return;
+    lastError = err.message;
+    console.log(`[osc] Warning: ${target.host}:${target.port}: ${err.message}`);
+  };
+  socket.on('error', report);
+
+  return {
+    target: { ...target },
+    send: (hap, deadline, cps) => {
+      let packet: Buffer;
+      try {
+        const controls = dirtControls(hap, cps, noteToMidi);
+        packet = encodeBundle(Date.now() + deadline * 1000, [
+          encodeMessage('/dirt/play', Object.entries(controls).flat()),
+        ]);
+      } catch (err: any) {
+        report(err);
+        return;
+      }
+      socket.send(packet, target.port, address, (err) => {
+        if (err) report(err);
+      });
+    },
+    close: () => new Promise((resolve) => socket.close(() => resolve())),
+  };
+}
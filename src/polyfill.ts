@@ -53,6 +53,8 @@ if (!(g as any).dispatchEvent) {
 safeSet('window', g);
 
 // ── Stub `document` ──
+// Canvases come back without a 2D context. The visuals that would draw on one
+// (.pianoroll(), .punchcard()) are redirected to `strudel viz` in engine.ts.
 
 safeSet('document', {
   createElement: () => ({
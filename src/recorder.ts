@@ -0,0 +1,89 @@
+/**
+ * Live recorder — taps the master bus after the limiter (exactly what reaches
+ * the sound card, fades and code swaps included) and streams it to a WAV file
+ * while it plays. The header is written with a zero length up front and
+ * patched with the real one when the recording stops. WAV sizes are 32-bit:
+ * at 4 GB the recorder stops capturing and calls `onFull`, so the file stays
+ * valid and the caller can save it.
+ */
+
+import { open } from 'node:fs/promises';
+import { wavHeader, encodePcm, HEADER_SIZE, MAX_WAV_DATA_BYTES, type WavBitDepth } from './wav.js';
+import type { Recorder, RecordingInfo } from './types.js';
+
+const CHANNELS = 2;
+const BUFFER_FRAMES = 4096;
+
+export async function startRecording(
+  audioContext: any,
+  source: any,
+  path: string,
+  bitDepth: WavBitDepth = 16,
+  onFull?: () => void,
+): Promise<Recorder> {
+  const file = await open(path, 'w');
+  const sampleRate: number = audioContext.sampleRate;
+  const frameBytes = CHANNELS * (bitDepth / 8);
+  // Whole frames only, so the data chunk never ends mid-sample
+  const maxBytes = MAX_WAV_DATA_BYTES - (MAX_WAV_DATA_BYTES % frameBytes);
+  await file.write(wavHeader(0, sampleRate, CHANNELS, bitDepth));
+
+  const startedAt = new Date().toISOString();
+  let frames = 0;
+  let bytes = 0;
+  let failure: Error | null = null;
+  // Writes are chained so chunks land in order
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const processor = audioContext.createScriptProcessor(BUFFER_FRAMES, CHANNELS, CHANNELS);
+  processor.onaudioprocess = (event: any) => {
+    const input = event.inputBuffer;
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < CHANNELS; c++) {
+      channels.push(input.getChannelData(Math.min(c, input.numberOfChannels - 1)));
+    }
+    const encoded = encodePcm(channels, bitDepth);
+    const pcm = encoded.subarray(0, Math.min(encoded.length, maxBytes - bytes));
+    frames += pcm.length / frameBytes;
+    bytes += pcm.length;
+    pending = pending.then(() => file.write(pcm)).catch((err) => {
+      failure ??= err as Error;
+    });
+    if (bytes >= maxBytes) {
+      processor.onaudioprocess = null;
+      onFull?.();
+    }
+  };
+  source.connect(processor);
+  // A script processor only runs while connected onwards; its output stays silent
+  processor.connect(audioContext.destination);
+
+  const info = (): RecordingInfo => ({
+    path,
+    startedAt,
+    seconds: frames / sampleRate,
+    bytes: HEADER_SIZE + bytes,
+  });
+
+  let stopped: Promise<RecordingInfo> | null = null;
+
+  return {
+    info,
+    stop: () => {
+      stopped ??= (async () => {
+        processor.onaudioprocess = null;
+        source.disconnect(processor);
+        processor.disconnect();
+        await pending;
+        try {
+          await file.write(wavHeader(bytes, sampleRate, CHANNELS, bitDepth), 0, HEADER_SIZE, 0);
+        } finally {
+          await file.close();
+        }
+        if (failure) throw new Error(`Recording to '${path}' failed: ${failure.message}`);
+        return info();
+      })();
+      return stopped;
+    },
+  };
+}
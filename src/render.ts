@@ -0,0 +1,96 @@
+/**
+ * Offline renderer — runs a song's code through the same pipeline as the live
+ * engine, but into an OfflineAudioContext, and encodes the result as WAV.
+ * The output goes through the same master bus (limiter and clip at the
+ * ceiling) as live playback, so a render never clips where playback wouldn't.
+ *
+ * Runs entirely in the calling process: the daemon and the sound card are
+ * never touched. (@strudel/webaudio's renderPatternAudio does the triggering
+ * part too, but it ends in a browser download and skips the master bus.)
+ */
+
+import {
+  loadStrudel,
+  registerSounds,
+  createRepl,
+  createValidator,
+  evaluateCode,
+  ceilingFromEnv,
+} from './engine.js';
+import { createMasterBus } from './master.js';
+import { encodeWav, type WavBitDepth } from './wav.js';
+
+export interface RenderOptions {
+  cycles: number;
+  sampleRate?: number;
+  bitDepth?: WavBitDepth;
+}
+
+export interface RenderResult {
+  wav: Buffer;
+  cps: number;
+  seconds: number;
+  events: number;
+}
+
+export async function renderSong(code: string, options: RenderOptions): Promise<RenderResult> {
+  const { cycles, sampleRate = 44100, bitDepth = 16 } = options;
+
+  const mods = await loadStrudel();
+  const { webaudio } = mods;
+  const { OfflineAudioContext } = await import('node-web-audio-api');
+
+  // Bind superdough to an offline context before anything else runs, so nothing
+  // falls back to creating a live AudioContext (which would open the sound card).
+  webaudio.setAudioContext(new OfflineAudioContext(2, 1, sampleRate));
+
+  await registerSounds(webaudio);
+
+  // Evaluate without starting the scheduler — we only need the pattern and the
+  // tempo the code sets via setcpm()/setcps().
+  const replInstance = createRepl(mods, {
+    defaultOutput: () => {},
+    getTime: () => 0,
+  });
+  const pattern = await evaluateCode(replInstance, createValidator(mods.transpilerFn), code, false);
+  if (!pattern) {
+    throw new Error('Evaluation error: code did not produce a pattern');
+  }
+  const cps: number = replInstance.scheduler.cps;
+
+  const seconds = cycles / cps;
+  const audioContext = new OfflineAudioContext(2, Math.ceil(seconds * sampleRate), sampleRate);
+  webaudio.setAudioContext(audioContext);
+  // Dropping the controller makes superdough rebuild its output graph on the new context
+  webaudio.setSuperdoughAudioController(null);
+  createMasterBus(audioContext, webaudio, { volume: 1, muted: false, ceiling: ceilingFromEnv() });
+
+  // Trigger in ascending onset order — controls like `cut` depend on graph state
+  const haps = pattern
+    .queryArc(0, cycles, { _cps: cps })
+    .filter((hap: any) => hap.hasOnset())
+    .sort((a: any, b: any) => a.whole.begin.valueOf() - b.whole.begin.valueOf());
+
+  for (const hap of haps) {
+    const begin = hap.whole.begin.valueOf();
+    try {
+      hap.ensureObjectValue();
+      await webaudio.superdough(hap.value, begin / cps, hap.duration / cps, cps, begin);
+    } catch (err: any) {
+      console.log(`[render] Warning: skipped event at cycle ${begin.toFixed(3)}: ${err.message || err}`);
+    }
+  }
+
+  const rendered = await audioContext.startRendering();
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < rendered.numberOfChannels; i++) {
+    channels.push(rendered.getChannelData(i));
+  }
+
+  return {
+    wav: encodeWav(channels, sampleRate, bitDepth),
+    cps,
+    seconds,
+    events: haps.length,
+  };
+}
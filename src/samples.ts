@@ -0,0 +1,272 @@
+/**
+ * Local sample folders and the offline sample cache.
+ *
+ * - Folders registered with `strudel samples add` become sound banks:
+ *   audio files at the top level play as `s("<bank>")`, files in a
+ *   sub-folder `bd/` play as `s("bd").bank("<bank>")`.
+ * - Every manifest and sample file the engine fetches is stored in a
+ *   content-addressed cache under STRUDEL_DIR/cache and served from
+ *   there on later runs, so a warmed-up machine plays without network.
+ */
+
+import { readFile, writeFile, mkdir, readdir, rename, rm, stat } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { join, resolve, extname, basename } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { STRUDEL_DIR, SAMPLES_FILE, SAMPLE_CACHE_DIR } from './constants.js';
+import { withLock } from './storage.js';
+import type { SamplesConfig, SampleFolder } from './types.js';
+
+const AUDIO_EXTENSIONS = new Set(['.wav', '.flac', '.mp3', '.ogg', '.aif', '.aiff']);
+const SAMPLES_LOCK = join(STRUDEL_DIR, 'samples.lock');
+const OBJECTS_DIR = join(SAMPLE_CACHE_DIR, 'objects');
+const URLS_DIR = join(SAMPLE_CACHE_DIR, 'urls');
+
+// ── Config ──
+
+async function ensureDir(): Promise<void> {
+  if (!existsSync(STRUDEL_DIR)) {
+    await mkdir(STRUDEL_DIR, { recursive: true });
+  }
+}
+
+async function loadConfig(): Promise<SamplesConfig> {
+  if (!existsSync(SAMPLES_FILE)) {
+    return { folders: {} };
+  }
+  const raw = await readFile(SAMPLES_FILE, 'utf-8');
+  const config = JSON.parse(raw) as SamplesConfig;
+  return { ...config, folders: config.folders ?? {} };
+}
+
+async function saveConfig(config: SamplesConfig): Promise<void> {
+  await ensureDir();
+  await writeFile(SAMPLES_FILE, JSON.stringify(config, null, 2), 'utf-8');
+}
+
+/**
+ * Register a local folder as a sound bank.
+ * Bank name defaults to the folder's base name. Throws if the name is taken
+ * or the folder contains no audio files.
+ */
+export async function addSampleFolder(
+  dir: string,
+  name?: string,
+): Promise<{ name: string; sounds: Record<string, string[]> }> {
+  const path = resolve(dir);
+  if (!existsSync(path) || !(await stat(path)).isDirectory()) {
+    throw new Error(`Folder '${dir}' not found.`);
+  }
+
+  const bank = name ?? basename(path);
+  if (!/^[A-Za-z0-9][\w-]*$/.test(bank)) {
+    throw new Error(`Invalid bank name '${bank}'. Use letters, digits, '-' and '_' (use --name to choose one).`);
+  }
+
+  const sounds = await scanSampleFolder(bank, path);
+  if (Object.keys(sounds).length === 0) {
+    throw new Error(`No audio files (${[...AUDIO_EXTENSIONS].join(', ')}) found in '${dir}'.`);
+  }
+
+  await ensureDir();
+  return withLock(SAMPLES_LOCK, async () => {
+    const config = await loadConfig();
+    if (config.folders[bank]) {
+      throw new Error(`Sample bank '${bank}' already exists. Use 'strudel samples remove ${bank}' first.`);
+    }
+    config.folders[bank] = { path, addedAt: new Date().toISOString() };
+    await saveConfig(config);
+    return { name: bank, sounds };
+  });
+}
+
+/**
+ * Unregister a local sound bank. The folder itself is left untouched.
+ */
+export async function removeSampleFolder(name: string): Promise<void> {
+  await ensureDir();
+  return withLock(SAMPLES_LOCK, async () => {
+    const config = await loadConfig();
+    if (!config.folders[name]) {
+      throw new Error(`Sample bank '${name}' not found.`);
+    }
+    delete config.folders[name];
+    await saveConfig(config);
+  });
+}
+
+/**
+ * List registered local sound banks.
+ */
+export async function listSampleFolders(): Promise<Record<string, SampleFolder>> {
+  const config = await loadConfig();
+  return config.folders;
+}
+
+/**
+ * Whether the engine may fetch from the network. STRUDEL_OFFLINE=1 wins over the stored setting.
+ */
+export async function isOffline(): Promise<boolean> {
+  if (process.env.STRUDEL_OFFLINE) return process.env.STRUDEL_OFFLINE !== '0';
+  const config = await loadConfig();
+  return config.offline === true;
+}
+
+export async function setOffline(offline: boolean): Promise<void> {
+  await ensureDir();
+  return withLock(SAMPLES_LOCK, async () => {
+    const config = await loadConfig();
+    config.offline = offline;
+    await saveConfig(config);
+  });
+}
+
+// ── Folder Scanning ──
+
+async function audioFilesIn(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries
+    .filter((e) => e.isFile() && AUDIO_EXTENSIONS.has(extname(e.name).toLowerCase()))
+    .map((e) => e.name)
+    .sort()
+    .map((file) => pathToFileURL(join(dir, file)).href);
+}
+
+/**
+ * Build a Strudel sample map for a folder: top-level files become `<bank>`,
+ * each sub-folder becomes `<bank>_<sub-folder>` (what `.bank()` resolves to).
+ */
+export async function scanSampleFolder(bank: string, dir: string): Promise<Record<string, string[]>> {
+  const map: Record<string, string[]> = {};
+
+  const rootFiles = await audioFilesIn(dir);
+  if (rootFiles.length > 0) map[bank] = rootFiles;
+
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries.filter((e) => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const files = await audioFilesIn(join(dir, entry.name));
+    if (files.length > 0) map[`${bank}_${entry.name}`] = files;
+  }
+
+  return map;
+}
+
+// ── Content-Addressed Cache ──
+// objects/<sha256>      — response bytes, stored once per distinct content
+// urls/<sha256(url)>    — { url, hash, contentType, size, fetchedAt }
+
+interface CacheEntry {
+  url: string;
+  hash: string;
+  contentType: string | null;
+  size: number;
+  fetchedAt: string;
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+async function writeAtomic(path: string, data: string | Buffer): Promise<void> {
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, data);
+  await rename(tmp, path);
+}
+
+async function readCached(url: string): Promise<Response | null> {
+  const entryPath = join(URLS_DIR, sha256(url));
+  if (!existsSync(entryPath)) return null;
+  try {
+    const entry = JSON.parse(await readFile(entryPath, 'utf-8')) as CacheEntry;
+    const bytes = await readFile(join(OBJECTS_DIR, entry.hash));
+    const headers: Record<string, string> = {};
+    if (entry.contentType) headers['content-type'] = entry.contentType;
+    return new Response(bytes, { status: 200, headers });
+  } catch {
+    // Corrupt or half-written entry — treat as a miss
+    return null;
+  }
+}
+
+async function storeCached(url: string, bytes: Buffer, contentType: string | null): Promise<void> {
+  await mkdir(OBJECTS_DIR, { recursive: true });
+  await mkdir(URLS_DIR, { recursive: true });
+  const hash = sha256(bytes);
+  const objectPath = join(OBJECTS_DIR, hash);
+  if (!existsSync(objectPath)) {
+    await writeAtomic(objectPath, bytes);
+  }
+  const entry: CacheEntry = { url, hash, contentType, size: bytes.length, fetchedAt: new Date().toISOString() };
+  await writeAtomic(join(URLS_DIR, sha256(url)), JSON.stringify(entry));
+}
+
+/**
+ * Cache size on disk.
+ */
+export async function cacheStats(): Promise<{ urls: number; objects: number; bytes: number }> {
+  const urls = existsSync(URLS_DIR) ? (await readdir(URLS_DIR)).length : 0;
+  let objects = 0;
+  let bytes = 0;
+  if (existsSync(OBJECTS_DIR)) {
+    for (const file of await readdir(OBJECTS_DIR)) {
+      objects++;
+      bytes += (await stat(join(OBJECTS_DIR, file))).size;
+    }
+  }
+  return { urls, objects, bytes };
+}
+
+export async function clearCache(): Promise<void> {
+  await rm(SAMPLE_CACHE_DIR, { recursive: true, force: true });
+}
+
+/**
+ * Replace globalThis.fetch with a cache-first version:
+ * - file:// URLs are read from disk (local sample folders)
+ * - http(s) GETs are served from the cache; on a miss they go to the network
+ *   (unless offline) and the response is stored for next time
+ */
+export function installSampleCache(options: { offline: boolean }): void {
+  const g = globalThis as any;
+  if (g.fetch?.__sampleCache) return;
+  const networkFetch: typeof fetch = g.fetch.bind(globalThis);
+
+  const cachedFetch = async (input: any, init?: any): Promise<Response> => {
+    const url: string = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (url.startsWith('file:')) {
+      const bytes = await readFile(fileURLToPath(url));
+      return new Response(bytes, { status: 200 });
+    }
+
+    const method = (init?.method ?? 'GET').toUpperCase();
+    if (!/^https?:/.test(url) || method !== 'GET') {
+      return networkFetch(input, init);
+    }
+
+    const hit = await readCached(url);
+    if (hit) return hit;
+
+    if (options.offline) {
+      throw new Error(`Offline mode: '${url}' is not in the sample cache`);
+    }
+
+    const resp = await networkFetch(input, init);
+    if (!resp.ok) return resp;
+
+    const bytes = Buffer.from(await resp.arrayBuffer());
+    const contentType = resp.headers.get('content-type');
+    try {
+      await storeCached(url, bytes, contentType);
+    } catch {
+      // Cache is best effort — never fail a fetch because the disk write failed
+    }
+    const headers: Record<string, string> = {};
+    if (contentType) headers['content-type'] = contentType;
+    return new Response(bytes, { status: resp.status, headers });
+  };
+  (cachedFetch as any).__sampleCache = true;
+
+  g.fetch = cachedFetch;
+}
@@ -0,0 +1,52 @@
+/**
+ * strudel.cc share links. The web REPL keeps code in the URL hash as
+ * encodeURIComponent(base64(utf-8 bytes)) — same as code2hash/hash2code in @strudel/core.
+ */
+
+import { STRUDEL_REPL_URL } from './constants.js';
+
+/**
+ * Link that opens `code` in the strudel.cc REPL.
+ */
+export function codeToShareUrl(code: string): string {
+  return `${STRUDEL_REPL_URL}#${encodeURIComponent(Buffer.from(code, 'utf-8').toString('base64'))}`;
+}
+
+/**
+ * Decode the code from a strudel.cc link (or a bare hash).
+ */
+export function codeFromShareUrl(link: string): string {
+  const input = link.trim();
+  let hash = input;
+
+  if (/^https?:\/\//.test(input) || input.includes('#')) {
+    const url = new URL(input.includes('://') ? input : `https://${input}`);
+    if (!url.hash) {
+      if (url.search) {
+        // ?<id> links point at code stored in strudel.cc's database
+        throw new Error(
+          `'${link}' is a short link; its code lives on strudel.cc's server. Open it in the browser and copy the address after the code loads (it ends in #...).`,
+        );
+      }
+      throw new Error(`'${link}' has no #code part.`);
+    }
+    hash = url.hash.slice(1);
+  }
+
+  let base64: string;
+  try {
+    base64 = decodeURIComponent(hash);
+  } catch {
+    throw new Error(`Could not decode the code in '${link}'.`);
+  }
+  if (!/^[A-Za-z0-9+/=\s_-]+$/.test(base64)) {
+    throw new Error(`Could not decode the code in '${link}'.`);
+  }
+
+  // Invalid UTF-8 decodes to U+FFFD — a sign the hash wasn't strudel code
+  const code = Buffer.from(base64, 'base64').toString('utf-8');
+  if (!code.trim() || code.includes('\uFFFD')) {
+    throw new Error(`Could not decode the code in '${link}'.`);
+  }
+  return code;
+}
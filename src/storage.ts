@@ -1,8 +1,37 @@
-import { readFile, writeFile, mkdir, rm } from 'node:fs/promises';
+import { readFile, writeFile, mkdir, rm, readdir, rename } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
-import { STRUDEL_DIR, SONGS_FILE } from './constants.js';
-import type { SongsData, Song, SongVersion } from './types.js';
+import { STRUDEL_DIR, SONGS_FILE, SONGS_DIR, SETLISTS_FILE } from './constants.js';
+import type {
+  SongsData,
+  SongVersion,
+  SongIndex,
+  SongIndexEntry,
+  SongMeta,
+  SongOrigin,
+  SongSummary,
+  VersionMeta,
+  SongBundle,
+  BundleSong,
+  ImportConflict,
+  ImportResult,
+  Setlist,
+  SetlistEntry,
+  SetlistsData,
+} from './types.js';
+
+// ── Layout ──
+// songs/index.json                   name → { dir, versions, createdAt, updatedAt }
+// songs/<dir>/song.json              per-song metadata
+// songs/<dir>/versions/000001.json   one file per version (append-only)
+//
+// Writers lock only what they touch: the index for create/delete/rename,
+// the song's own lock for new versions. Readers never lock.
+
+const INDEX_FILE = join(SONGS_DIR, 'index.json');
+const INDEX_LOCK = join(SONGS_DIR, 'index.lock');
+/** Lock of the legacy single-file layout — still taken while migrating */
+const LEGACY_LOCK = join(STRUDEL_DIR, 'songs.lock');
 
 // ── Helpers ──
 
@@ -12,23 +41,225 @@ async function ensureDir(): Promise<void> {
   }
 }
 
-async function loadSongs(): Promise<SongsData> {
-  await ensureDir();
-  if (!existsSync(SONGS_FILE)) {
-    return { songs: {} };
+/**
+ * Write via temp file + rename so lock-free readers never see a partial file.
+ */
+async function writeJsonAtomic(path: string, data: unknown): Promise<void> {
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2), 'utf-8');
+  await rename(tmp, path);
+}
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, 'utf-8')) as T;
+}
+
+function versionFile(songPath: string, n: number): string {
+  return join(songPath, 'versions', `${String(n).padStart(6, '0')}.json`);
+}
+
+/**
+ * Pick a directory name for a song: a lowercase slug (safe on
+ * case-insensitive filesystems), suffixed until it is unused.
+ */
+function pickDir(name: string, index: SongIndex, root: string = SONGS_DIR): string {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'song';
+  const taken = new Set(Object.values(index.songs).map((e) => e.dir));
+  let dir = slug;
+  for (let n = 2; taken.has(dir) || existsSync(join(root, dir)); n++) {
+    dir = `${slug}-${n}`;
+  }
+  return dir;
+}
+
+async function writeSongDir(root: string, dir: string, meta: SongMeta, versions: SongVersion[]): Promise<void> {
+  const path = join(root, dir);
+  await mkdir(join(path, 'versions'), { recursive: true });
+  await writeJsonAtomic(join(path, 'song.json'), meta);
+  for (let i = 0; i < versions.length; i++) {
+    await writeJsonAtomic(versionFile(path, i + 1), versions[i]);
+  }
+}
+
+// ── Migration ──
+
+/**
+ * Create the songs/ store. Imports a legacy songs.json if one exists (kept
+ * as songs.json.migrated), or rebuilds a lost index from the song folders.
+ */
+async function initStore(): Promise<void> {
+  if (existsSync(SONGS_DIR)) {
+    await rebuildIndex();
+    return;
+  }
+
+  // Build the whole store next to the target, then swap it in atomically
+  const tmp = `${SONGS_DIR}.migrating-${process.pid}`;
+  await rm(tmp, { recursive: true, force: true });
+  await mkdir(tmp, { recursive: true });
+
+  const index: SongIndex = { format: 1, songs: {} };
+  const legacy = existsSync(SONGS_FILE) ? await readJson<SongsData>(SONGS_FILE) : null;
+
+  for (const [name, song] of Object.entries(legacy?.songs ?? {})) {
+    const dir = pickDir(name, index, tmp);
+    const createdAt = song.versions[0]?.createdAt ?? new Date().toISOString();
+    await writeSongDir(tmp, dir, { name, createdAt }, song.versions);
+    index.songs[name] = {
+      dir,
+      versions: song.versions.length,
+      createdAt,
+      updatedAt: song.versions[song.versions.length - 1]?.createdAt ?? createdAt,
+    };
+  }
+
+  await writeJsonAtomic(join(tmp, 'index.json'), index);
+  await rename(tmp, SONGS_DIR);
+
+  if (legacy) {
+    await rename(SONGS_FILE, `${SONGS_FILE}.migrated`);
   }
-  const raw = await readFile(SONGS_FILE, 'utf-8');
-  return JSON.parse(raw) as SongsData;
 }
 
-async function saveSongs(data: SongsData): Promise<void> {
+/**
+ * Recover index.json from the song folders' song.json files.
+ */
+async function rebuildIndex(): Promise<void> {
+  const index: SongIndex = { format: 1, songs: {} };
+  const entries = await readdir(SONGS_DIR, { withFileTypes: true });
+
+  for (const entry of entries.filter((e) => e.isDirectory())) {
+    const path = join(SONGS_DIR, entry.name);
+    if (!existsSync(join(path, 'song.json'))) continue;
+    const meta = await readJson<SongMeta>(join(path, 'song.json'));
+    const count = await countVersions(path);
+    const latest = count > 0 ? await readJson<SongVersion>(versionFile(path, count)) : null;
+    index.songs[meta.name] = {
+      dir: entry.name,
+      versions: count,
+      createdAt: meta.createdAt,
+      updatedAt: latest?.createdAt ?? meta.createdAt,
+    };
+  }
+
+  await writeJsonAtomic(INDEX_FILE, index);
+}
+
+async function ensureStore(): Promise<void> {
+  if (existsSync(INDEX_FILE)) return;
   await ensureDir();
-  await writeFile(SONGS_FILE, JSON.stringify(data, null, 2), 'utf-8');
+  await withLock(LEGACY_LOCK, async () => {
+    // Double-check: another process may have migrated while we waited
+    if (!existsSync(INDEX_FILE)) await initStore();
+  });
+}
+
+// ── Index ──
+
+async function loadIndex(): Promise<SongIndex> {
+  await ensureStore();
+  return readJson<SongIndex>(INDEX_FILE);
+}
+
+async function updateIndex<T>(fn: (index: SongIndex) => T | Promise<T>): Promise<T> {
+  await ensureStore();
+  return withLock(INDEX_LOCK, async () => {
+    const index = await readJson<SongIndex>(INDEX_FILE);
+    const result = await fn(index);
+    await writeJsonAtomic(INDEX_FILE, index);
+    return result;
+  });
+}
+
+// ── Song Folders ──
+
+interface SongHandle {
+  name: string;
+  dir: string;
+  path: string;
+}
+
+async function resolveSong(name: string): Promise<SongHandle> {
+  const index = await loadIndex();
+  const entry = index.songs[name];
+  if (!entry) {
+    throw new Error(`Song '${name}' not found. Use 'strudel make' to create one.`);
+  }
+  return { name, dir: entry.dir, path: join(SONGS_DIR, entry.dir) };
+}
+
+/**
+ * Run `fn` under the song's own lock. If the song is deleted while we wait
+ * (its folder, lock included, goes away), it is simply not found.
+ */
+async function withSongLock<T>(song: SongHandle, fn: () => Promise<T>): Promise<T> {
+  try {
+    return await withLock(join(song.path, '.lock'), fn);
+  } catch (e: any) {
+    if (e.code === 'ENOENT' && !existsSync(song.path)) {
+      throw new Error(`Song '${song.name}' not found. Use 'strudel make' to create one.`);
+    }
+    throw e;
+  }
+}
+
+async function countVersions(songPath: string): Promise<number> {
+  const files = await readdir(join(songPath, 'versions'));
+  return files.filter((f) => f.endsWith('.json')).length;
+}
+
+async function readVersion(song: SongHandle, n: number): Promise<SongVersion> {
+  return readJson<SongVersion>(versionFile(song.path, n));
+}
+
+/**
+ * Append a version built from the song's current state, under the song's own lock.
+ * `build` receives the latest version and the current version count.
+ */
+async function appendTo(
+  name: string,
+  build: (latest: SongVersion, total: number, song: SongHandle) => SongVersion | Promise<SongVersion>,
+): Promise<{ version: SongVersion; number: number }> {
+  const song = await resolveSong(name);
+
+  return withSongLock(song, async () => {
+    const total = await countVersions(song.path);
+    const latest = await readVersion(song, total);
+    const version = await build(latest, total, song);
+    const number = total + 1;
+    await writeJsonAtomic(versionFile(song.path, number), version);
+
+    // Keep the index summary in sync — located by dir in case of a concurrent rename
+    await updateIndex((index) => {
+      const entry = Object.values(index.songs).find((e) => e.dir === song.dir);
+      if (entry) {
+        entry.versions = number;
+        entry.updatedAt = version.createdAt;
+      }
+    });
+
+    return { version, number };
+  });
+}
+
+/**
+ * Build a version record, leaving out metadata fields that weren't given.
+ */
+function newVersion(code: string, meta: VersionMeta = {}, parent?: number): SongVersion {
+  const version: SongVersion = { code, createdAt: new Date().toISOString() };
+  if (meta.message) version.message = meta.message;
+  if (meta.author) version.author = meta.author;
+  if (parent !== undefined) version.parent = parent;
+  return version;
 }
 
 // ── File Lock ──
 
-const SONGS_LOCK = join(STRUDEL_DIR, 'songs.lock');
 const LOCK_TIMEOUT = 5000; // 5 seconds max wait
 
 export async function withLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
@@ -60,25 +291,52 @@ export async function withLock<T>(lockPath: string, fn: () => Promise<T>): Promi
  * Create a new song with initial code (version 1).
  * Throws if song already exists.
  */
-export async function makeSong(name: string, code: string): Promise<SongVersion> {
-  return withLock(SONGS_LOCK, async () => {
-    const data = await loadSongs();
-
-    if (data.songs[name]) {
+export async function makeSong(
+  name: string,
+  code: string,
+  meta?: VersionMeta,
+  forkedFrom?: SongOrigin,
+): Promise<SongVersion> {
+  return updateIndex(async (index) => {
+    if (index.songs[name]) {
       throw new Error(`Song '${name}' already exists. Use 'strudel update' to modify it.`);
     }
 
-    const version: SongVersion = {
-      code,
-      createdAt: new Date().toISOString(),
-    };
+    const version = newVersion(code, meta);
 
-    data.songs[name] = { versions: [version] };
-    await saveSongs(data);
+    const dir = pickDir(name, index);
+    const songMeta: SongMeta = { name, createdAt: version.createdAt };
+    if (forkedFrom) songMeta.forkedFrom = forkedFrom;
+    await writeSongDir(SONGS_DIR, dir, songMeta, [version]);
+    index.songs[name] = { dir, versions: 1, createdAt: version.createdAt, updatedAt: version.createdAt };
     return version;
   });
 }
 
+/**
+ * Start a new song from a version of an existing one (default: latest).
+ * The source's history is left untouched; the new song records where it came from.
+ */
+export async function forkSong(
+  name: string,
+  newName: string,
+  version?: number,
+  meta?: VersionMeta,
+): Promise<{ code: string; from: SongOrigin }> {
+  const source = await detailSong(name, version);
+  const from: SongOrigin = { name, version: source.version };
+  await makeSong(newName, source.code, { ...meta, message: meta?.message ?? `Fork of ${name} v${source.version}` }, from);
+  return { code: source.code, from };
+}
+
+/**
+ * Song-level metadata (creation time, fork provenance).
+ */
+export async function getSongMeta(name: string): Promise<SongMeta> {
+  const song = await resolveSong(name);
+  return readJson<SongMeta>(join(song.path, 'song.json'));
+}
+
 /**
  * Find & replace in the latest version's code, creating a new version.
  * If `from` matches multiple times and no index is given, throws with count.
@@ -89,6 +347,7 @@ export async function updateSong(
   from: string,
   to: string,
   index?: number,
+  meta?: VersionMeta,
 ): Promise<{ code: string; version: number }> {
   // Bug 4: empty `from` causes indexOf infinite loop
   if (!from || from.length === 0) {
@@ -103,15 +362,7 @@ export async function updateSong(
     }
   }
 
-  return withLock(SONGS_LOCK, async () => {
-    const data = await loadSongs();
-    const song = data.songs[name];
-
-    if (!song) {
-      throw new Error(`Song '${name}' not found. Use 'strudel make' to create one.`);
-    }
-
-    const latest = song.versions[song.versions.length - 1];
+  const { version, number } = await appendTo(name, (latest, total) => {
     let code = latest.code;
 
     // Count occurrences
@@ -146,33 +397,45 @@ export async function updateSong(
     const pos = matches[targetIndex];
     code = code.substring(0, pos) + to + code.substring(pos + from.length);
 
-    const newVersion: SongVersion = {
-      code,
-      createdAt: new Date().toISOString(),
-    };
+    return newVersion(code, meta, total);
+  });
 
-    song.versions.push(newVersion);
-    await saveSongs(data);
+  return { code: version.code, version: number };
+}
 
-    return { code, version: song.versions.length };
-  });
+/**
+ * Append `code` as a new latest version (used by editor/file workflows that
+ * replace the whole code instead of a find & replace).
+ * Returns the new version number.
+ */
+export async function appendVersion(
+  name: string,
+  code: string,
+  meta?: VersionMeta,
+): Promise<{ version: number }> {
+  const { number } = await appendTo(name, (_latest, total) => newVersion(code, meta, total));
+  return { version: number };
 }
 
 /**
  * Get song detail. Returns code for specified version (latest if omitted).
+ * Reads only the index and the one version file.
  */
 export async function detailSong(
   name: string,
   version?: number,
-): Promise<{ code: string; version: number; totalVersions: number; createdAt: string }> {
-  const data = await loadSongs();
-  const song = data.songs[name];
-
-  if (!song) {
-    throw new Error(`Song '${name}' not found. Use 'strudel make' to create one.`);
-  }
-
-  const totalVersions = song.versions.length;
+): Promise<{
+  code: string;
+  version: number;
+  totalVersions: number;
+  createdAt: string;
+  message?: string;
+  author?: string;
+  parent?: number;
+}> {
+  const song = await resolveSong(name);
+
+  const totalVersions = await countVersions(song.path);
   const versionIndex = version ? version - 1 : totalVersions - 1;
 
   if (versionIndex < 0 || versionIndex >= totalVersions) {
@@ -181,21 +444,50 @@ export async function detailSong(
     );
   }
 
-  const sv = song.versions[versionIndex];
+  const sv = await readVersion(song, versionIndex + 1);
   return {
     code: sv.code,
     version: versionIndex + 1,
     totalVersions,
     createdAt: sv.createdAt,
+    message: sv.message,
+    author: sv.author,
+    parent: sv.parent,
   };
 }
 
+/**
+ * Full version history of a song, newest first.
+ */
+export async function logSong(name: string): Promise<Array<SongVersion & { version: number }>> {
+  const song = await resolveSong(name);
+  const total = await countVersions(song.path);
+  const history: Array<SongVersion & { version: number }> = [];
+  for (let n = total; n >= 1; n--) {
+    history.push({ ...(await readVersion(song, n)), version: n });
+  }
+  return history;
+}
+
 /**
  * List all song names.
  */
 export async function listSongs(): Promise<string[]> {
-  const data = await loadSongs();
-  return Object.keys(data.songs);
+  const index = await loadIndex();
+  return Object.keys(index.songs);
+}
+
+/**
+ * List all songs with version counts, straight from the index.
+ */
+export async function listSongSummaries(): Promise<SongSummary[]> {
+  const index = await loadIndex();
+  return Object.entries(index.songs).map(([name, entry]: [string, SongIndexEntry]) => ({
+    name,
+    versions: entry.versions,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  }));
 }
 
 /**
@@ -203,35 +495,49 @@ export async function listSongs(): Promise<string[]> {
  * Throws if song doesn't exist.
  */
 export async function deleteSong(name: string): Promise<void> {
-  return withLock(SONGS_LOCK, async () => {
-    const data = await loadSongs();
-
-    if (!data.songs[name]) {
-      throw new Error(`Song '${name}' not found.`);
-    }
+  const index = await loadIndex();
+  const entry = index.songs[name];
+  if (!entry) {
+    throw new Error(`Song '${name}' not found.`);
+  }
+  const song: SongHandle = { name, dir: entry.dir, path: join(SONGS_DIR, entry.dir) };
 
-    delete data.songs[name];
-    await saveSongs(data);
+  // Take the song lock so no version is being written while the folder goes away
+  await withSongLock(song, async () => {
+    await updateIndex((idx) => {
+      if (!idx.songs[name]) {
+        throw new Error(`Song '${name}' not found.`);
+      }
+      delete idx.songs[name];
+    });
+    // Move it out of the way first: writers waiting for the lock see the song
+    // gone at once, instead of re-creating the lock in a half-removed folder
+    const trash = `${song.path}.deleted-${Date.now()}`;
+    await rename(song.path, trash);
+    await rm(trash, { recursive: true, force: true });
   });
 }
 
 /**
  * Rename a song. Throws if source doesn't exist or target already exists.
+ * Only the index and song.json change — the folder keeps its name.
  */
 export async function renameSong(oldName: string, newName: string): Promise<void> {
-  return withLock(SONGS_LOCK, async () => {
-    const data = await loadSongs();
-
-    if (!data.songs[oldName]) {
+  return updateIndex(async (index) => {
+    const entry = index.songs[oldName];
+    if (!entry) {
       throw new Error(`Song '${oldName}' not found.`);
     }
-    if (data.songs[newName]) {
+    if (index.songs[newName]) {
       throw new Error(`Song '${newName}' already exists.`);
     }
 
-    data.songs[newName] = data.songs[oldName];
-    delete data.songs[oldName];
-    await saveSongs(data);
+    const metaPath = join(SONGS_DIR, entry.dir, 'song.json');
+    const meta = await readJson<SongMeta>(metaPath);
+    await writeJsonAtomic(metaPath, { ...meta, name: newName });
+
+    index.songs[newName] = entry;
+    delete index.songs[oldName];
   });
 }
 
@@ -242,16 +548,9 @@ export async function renameSong(oldName: string, newName: string): Promise<void
 export async function promoteVersion(
   name: string,
   fromVersion: number,
+  meta?: VersionMeta,
 ): Promise<{ code: string; fromVersion: number; newVersion: number }> {
-  return withLock(SONGS_LOCK, async () => {
-    const data = await loadSongs();
-    const song = data.songs[name];
-
-    if (!song) {
-      throw new Error(`Song '${name}' not found. Use 'strudel make' to create one.`);
-    }
-
-    const totalVersions = song.versions.length;
+  const { version, number } = await appendTo(name, async (_latest, totalVersions, song) => {
     const versionIndex = fromVersion - 1;
 
     if (versionIndex < 0 || versionIndex >= totalVersions) {
@@ -260,17 +559,11 @@ export async function promoteVersion(
       );
     }
 
-    const code = song.versions[versionIndex].code;
-    const newVersion: SongVersion = {
-      code,
-      createdAt: new Date().toISOString(),
-    };
-
-    song.versions.push(newVersion);
-    await saveSongs(data);
-
-    return { code, fromVersion, newVersion: song.versions.length };
+    const source = await readVersion(song, fromVersion);
+    return newVersion(source.code, meta, fromVersion);
   });
+
+  return { code: version.code, fromVersion, newVersion: number };
 }
 
 /**
@@ -283,3 +576,252 @@ export async function getSongCode(
   const detail = await detailSong(name, version);
   return { code: detail.code, version: detail.version };
 }
+
+// ── Bundles ──
+
+export const BUNDLE_FORMAT = 'strudel-cli-bundle';
+export const BUNDLE_VERSION = 1;
+
+/**
+ * Collect songs with their full histories into a portable bundle.
+ */
+export async function exportSongs(names: string[]): Promise<SongBundle> {
+  const songs: BundleSong[] = [];
+  for (const name of names) {
+    const meta = await getSongMeta(name);
+    const versions = (await logSong(name)).reverse().map(({ version: _n, ...v }) => v);
+    const song: BundleSong = { name, createdAt: meta.createdAt, versions };
+    if (meta.forkedFrom) song.forkedFrom = meta.forkedFrom;
+    songs.push(song);
+  }
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), songs };
+}
+
+/**
+ * Check that parsed JSON is a bundle this version can import.
+ */
+export function parseBundle(data: unknown): SongBundle {
+  const bundle = data as SongBundle;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error(`Not a song bundle (expected "format": "${BUNDLE_FORMAT}").`);
+  }
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${bundle.version} (this CLI reads version ${BUNDLE_VERSION}).`);
+  }
+  if (!Array.isArray(bundle.songs)) {
+    throw new Error('Invalid bundle: "songs" must be an array.');
+  }
+  for (const song of bundle.songs) {
+    if (typeof song?.name !== 'string' || !song.name) {
+      throw new Error('Invalid bundle: every song needs a "name".');
+    }
+    if (!Array.isArray(song.versions) || song.versions.length === 0) {
+      throw new Error(`Invalid bundle: song '${song.name}' has no versions.`);
+    }
+    for (const v of song.versions) {
+      if (typeof v?.code !== 'string' || typeof v.createdAt !== 'string') {
+        throw new Error(`Invalid bundle: song '${song.name}' has a version without "code" / "createdAt".`);
+      }
+    }
+  }
+  return bundle;
+}
+
+/**
+ * Store a bundle song under `name` as a new song folder.
+ * Returns false if the name was taken in the meantime.
+ */
+async function createFromBundle(name: string, song: BundleSong): Promise<boolean> {
+  return updateIndex(async (index) => {
+    if (index.songs[name]) return false;
+    const dir = pickDir(name, index);
+    const meta: SongMeta = { name, createdAt: song.createdAt };
+    if (song.forkedFrom) meta.forkedFrom = song.forkedFrom;
+    await writeSongDir(SONGS_DIR, dir, meta, song.versions);
+    index.songs[name] = {
+      dir,
+      versions: song.versions.length,
+      createdAt: song.createdAt,
+      updatedAt: song.versions[song.versions.length - 1].createdAt,
+    };
+    return true;
+  });
+}
+
+/**
+ * Append the bundle versions an existing song doesn't have yet (same code and
+ * timestamp = same version), remapping parent links to the local numbering.
+ */
+async function mergeFromBundle(name: string, song: BundleSong): Promise<number> {
+  const target = await resolveSong(name);
+
+  return withSongLock(target, async () => {
+    const key = (v: SongVersion) => `${v.createdAt}\0${v.code}`;
+    let total = await countVersions(target.path);
+    const local = new Map<string, number>();
+    for (let n = 1; n <= total; n++) {
+      local.set(key(await readVersion(target, n)), n);
+    }
+
+    const numbering: number[] = [];
+    let added = 0;
+    let updatedAt = '';
+    for (const v of song.versions) {
+      const existing = local.get(key(v));
+      if (existing) {
+        numbering.push(existing);
+        continue;
+      }
+      const { parent, ...rest } = v;
+      const version: SongVersion = { ...rest };
+      if (parent !== undefined && numbering[parent - 1] !== undefined) version.parent = numbering[parent - 1];
+      total++;
+      await writeJsonAtomic(versionFile(target.path, total), version);
+      local.set(key(v), total);
+      numbering.push(total);
+      updatedAt = version.createdAt;
+      added++;
+    }
+
+    if (added > 0) {
+      await updateIndex((index) => {
+        const entry = Object.values(index.songs).find((e) => e.dir === target.dir);
+        if (entry) {
+          entry.versions = total;
+          entry.updatedAt = updatedAt;
+        }
+      });
+    }
+    return added;
+  });
+}
+
+/**
+ * Import every song in a bundle. On a name clash, `onConflict` decides:
+ * skip it, store it as `<name>-2`, `<name>-3`, ..., or merge its history in.
+ */
+export async function importBundle(bundle: SongBundle, onConflict: ImportConflict): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+
+  for (const song of bundle.songs) {
+    const { name } = song;
+    if (await createFromBundle(name, song)) {
+      results.push({ name, as: name, status: 'created', added: song.versions.length });
+      continue;
+    }
+
+    if (onConflict === 'skip') {
+      results.push({ name, as: name, status: 'skipped', added: 0 });
+    } else if (onConflict === 'merge') {
+      results.push({ name, as: name, status: 'merged', added: await mergeFromBundle(name, song) });
+    } else {
+      let n = 2;
+      while (!(await createFromBundle(`${name}-${n}`, song))) n++;
+      results.push({ name, as: `${name}-${n}`, status: 'renamed', added: song.versions.length });
+    }
+  }
+
+  return results;
+}
+
+// ── Setlists ──
+// setlists.json — name → ordered song entries, each with how long it plays
+
+const SETLISTS_LOCK = join(STRUDEL_DIR, 'setlists.lock');
+
+async function loadSetlists(): Promise<SetlistsData> {
+  // No prototype: a setlist called `constructor` or `toString` is just a name
+  const setlists: SetlistsData['setlists'] = Object.create(null);
+  if (existsSync(SETLISTS_FILE)) {
+    const data = await readJson<SetlistsData>(SETLISTS_FILE);
+    Object.assign(setlists, data.setlists);
+  }
+  return { setlists };
+}
+
+async function updateSetlists<T>(fn: (data: SetlistsData) => T | Promise<T>): Promise<T> {
+  await ensureDir();
+  return withLock(SETLISTS_LOCK, async () => {
+    const data = await loadSetlists();
+    const result = await fn(data);
+    await writeJsonAtomic(SETLISTS_FILE, data);
+    return result;
+  });
+}
+
+function findSetlist(data: SetlistsData, name: string): Setlist {
+  const setlist = data.setlists[name];
+  if (!setlist) {
+    throw new Error(`Setlist '${name}' not found.`);
+  }
+  return setlist;
+}
+
+/**
+ * Create an empty setlist. Throws if the name is taken.
+ */
+export async function createSetlist(name: string): Promise<Setlist> {
+  return updateSetlists((data) => {
+    if (data.setlists[name]) {
+      throw new Error(`Setlist '${name}' already exists.`);
+    }
+    const setlist: Setlist = { name, createdAt: new Date().toISOString(), entries: [] };
+    data.setlists[name] = setlist;
+    return setlist;
+  });
+}
+
+/**
+ * Append a song to a setlist (or insert at 1-based `position`).
+ * The song — and the pinned version, if any — must exist.
+ */
+export async function addToSetlist(name: string, entry: SetlistEntry, position?: number): Promise<Setlist> {
+  if (entry.version != null) {
+    await detailSong(entry.song, entry.version);
+  } else {
+    await resolveSong(entry.song);
+  }
+
+  return updateSetlists((data) => {
+    const setlist = findSetlist(data, name);
+    const count = setlist.entries.length;
+    if (position != null && (!Number.isInteger(position) || position < 1 || position > count + 1)) {
+      throw new Error(`Position ${position} out of range. Setlist '${name}' has ${count} song(s).`);
+    }
+    setlist.entries.splice(position != null ? position - 1 : count, 0, entry);
+    return setlist;
+  });
+}
+
+/**
+ * Remove the entry at 1-based `position`.
+ */
+export async function removeFromSetlist(
+  name: string,
+  position: number,
+): Promise<{ setlist: Setlist; removed: SetlistEntry }> {
+  return updateSetlists((data) => {
+    const setlist = findSetlist(data, name);
+    if (!Number.isInteger(position) || position < 1 || position > setlist.entries.length) {
+      throw new Error(`Position ${position} out of range. Setlist '${name}' has ${setlist.entries.length} song(s).`);
+    }
+    const [removed] = setlist.entries.splice(position - 1, 1);
+    return { setlist, removed };
+  });
+}
+
+export async function getSetlist(name: string): Promise<Setlist> {
+  return findSetlist(await loadSetlists(), name);
+}
+
+export async function listSetlists(): Promise<Setlist[]> {
+  const data = await loadSetlists();
+  return Object.values(data.setlists);
+}
+
+export async function deleteSetlist(name: string): Promise<void> {
+  await updateSetlists((data) => {
+    findSetlist(data, name);
+    delete data.setlists[name];
+  });
+}
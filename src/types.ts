@@ -3,25 +3,248 @@
 export interface SongVersion {
   code: string;
   createdAt: string;
+  /** Why this version exists */
+  message?: string;
+  /** Person or agent id that created it */
+  author?: string;
+  /** Version number this one was derived from */
+  parent?: number;
+}
+
+/** Caller-supplied metadata for a new version */
+export interface VersionMeta {
+  message?: string;
+  author?: string;
 }
 
 export interface Song {
   versions: SongVersion[];
 }
 
+/** Legacy single-file format (songs.json) */
 export interface SongsData {
   songs: Record<string, Song>;
 }
 
+export interface SongMeta {
+  name: string;
+  createdAt: string;
+  /** Set when the song was created by `strudel fork` */
+  forkedFrom?: SongOrigin;
+}
+
+/** A specific version of another song */
+export interface SongOrigin {
+  name: string;
+  version: number;
+}
+
+export interface SongIndexEntry {
+  /** Folder under songs/ holding song.json and versions/ */
+  dir: string;
+  versions: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SongIndex {
+  format: 1;
+  songs: Record<string, SongIndexEntry>;
+}
+
+export interface SongSummary {
+  name: string;
+  versions: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Bundle Types ──
+// Portable export format (`strudel export` / `strudel import`). Bump
+// BUNDLE_VERSION on incompatible changes; importers reject unknown versions.
+
+export interface SongBundle {
+  format: 'strudel-cli-bundle';
+  version: 1;
+  exportedAt: string;
+  songs: BundleSong[];
+}
+
+export interface BundleSong {
+  name: string;
+  createdAt: string;
+  forkedFrom?: SongOrigin;
+  /** Full history, oldest first — `parent` numbers refer to positions in this list (1-based) */
+  versions: SongVersion[];
+}
+
+export type ImportConflict = 'skip' | 'rename' | 'merge';
+
+export interface ImportResult {
+  name: string;
+  /** Name the song was stored under (differs from `name` after a rename) */
+  as: string;
+  status: 'created' | 'skipped' | 'renamed' | 'merged';
+  /** Versions written */
+  added: number;
+}
+
+// ── Setlist Types ──
+
+export interface SetlistEntry extends StepDelay {
+  song: string;
+  /** Pinned version (latest at play time if unset) */
+  version?: number;
+}
+
+export interface Setlist {
+  name: string;
+  createdAt: string;
+  entries: SetlistEntry[];
+}
+
+export interface SetlistsData {
+  setlists: Record<string, Setlist>;
+}
+
+// ── Sample Types ──
+
+export interface SampleFolder {
+  path: string;
+  addedAt: string;
+}
+
+export interface SamplesConfig {
+  /** Local folders registered as sound banks, keyed by bank name */
+  folders: Record<string, SampleFolder>;
+  /** Never hit the network — serve sample manifests and files from the cache only */
+  offline?: boolean;
+}
+
 // ── Daemon State Types ──
 
 export type PlaybackState = 'playing' | 'paused' | 'stopped';
 
+/** A named playback slot stacked on top of the main song */
+export interface LayerSlot {
+  name: string;
+  version: number;
+  code: string;
+  muted: boolean;
+  solo: boolean;
+}
+
 export interface DaemonState {
   name?: string;
   version?: number;
   state: PlaybackState;
   code?: string;
+  layers?: Record<string, LayerSlot>;
+}
+
+/** Master output settings, applied after all patterns and layers */
+export interface MixerState {
+  /** Master volume, 0-1 */
+  volume: number;
+  muted: boolean;
+  /** Safety limiter ceiling in dBFS */
+  ceiling: number;
+}
+
+/** A live recording of the master output */
+export interface RecordingInfo {
+  /** Absolute path of the WAV file */
+  path: string;
+  startedAt: string;
+  /** Seconds of audio captured so far */
+  seconds: number;
+  /** File size so far, header included */
+  bytes: number;
+}
+
+/** Where the engine sends haps: the built-in synths, OSC (SuperDirt), or both */
+export type OutputMode = 'webaudio' | 'osc' | 'both';
+
+/** UDP destination for `/dirt/play` messages */
+export interface OscTarget {
+  host: string;
+  port: number;
+}
+
+export interface OutputConfig extends OscTarget {
+  mode: OutputMode;
+}
+
+/** One event (hap) of a pattern, as the inspectors and the visualizer see it */
+export interface SongEvent {
+  /** Onset and end, in cycles */
+  begin: number;
+  end: number;
+  /** `$:` / `name:` layer it belongs to, prefixed with the layer slot when slots are in use; null without labels */
+  layer: string | null;
+  /** MIDI pitch from `note` (names or numbers, scales applied) or `freq`; null for unpitched events */
+  pitch: number | null;
+  /** Control values as the pattern produced them (`s`, `note`, `gain`, …) */
+  value: Record<string, unknown>;
+}
+
+/** How `strudel viz` draws the playing pattern */
+export type VizMode = 'pianoroll' | 'punchcard' | 'meter';
+
+/** What a `.pianoroll()` / `.punchcard()` call in the playing code asked for */
+export interface VizRequest {
+  mode: 'pianoroll' | 'punchcard';
+  /** Cycles across the screen */
+  cycles?: number;
+  /** Playhead position, 0 (left edge) to 1 (right edge) */
+  playhead?: number;
+}
+
+/** Delays count playback time, so pausing holds sequences and setlists too */
+export type SequenceDelayUnit = 'seconds' | 'cycles';
+
+/** How long a timeline step plays before the next one */
+export interface StepDelay {
+  delay: number;
+  unit: SequenceDelayUnit;
+}
+
+export interface SequenceStep extends StepDelay {
+  /** Song version to promote and play */
+  version: number;
+}
+
+export interface SetlistStep extends StepDelay {
+  song: string;
+  version: number;
+}
+
+export type SequenceStatus = 'running' | 'done' | 'cancelled' | 'failed';
+
+/** Progress of a timeline the daemon plays through (sequence or setlist) */
+export interface TimelineJob<S extends StepDelay = StepDelay> {
+  id: string;
+  steps: S[];
+  loop: boolean;
+  status: SequenceStatus;
+  /** Index of the active step */
+  step: number;
+  /** Completed passes through the steps (looping timelines) */
+  pass: number;
+  /** Delay left on the active step, in the step's unit */
+  remaining?: number;
+  error?: string;
+  startedAt: string;
+}
+
+export interface SequenceJob extends TimelineJob<SequenceStep> {
+  name: string;
+  /** Song version the active step was promoted to */
+  version?: number;
+}
+
+export interface SetlistJob extends TimelineJob<SetlistStep> {
+  setlist: string;
 }
 
 // ── Daemon PID File ──
@@ -43,12 +266,34 @@ export interface CurrentResponse {
   version?: number;
   state: PlaybackState;
   code?: string;
+  layers?: Record<string, LayerSlot>;
+  /** Scheduler tempo in cycles per second */
+  cps?: number;
+  /** Scheduler position in cycles */
+  cycle?: number;
+  /** Seconds played since the last play/restart, pauses excluded */
+  elapsed?: number;
+  /** Sequence job currently driving playback */
+  sequence?: SequenceJob;
+  /** Setlist currently driving playback */
+  setlist?: SetlistJob;
+  mixer?: MixerState;
+  /** Recording in progress */
+  recording?: RecordingInfo;
+  output?: OutputConfig;
 }
 
 export interface PlayRequest {
   code: string;
   name: string;
   version: number;
+  /** Crossfade seconds from whatever is playing (or fade in from silence) */
+  fade?: number;
+}
+
+export interface StopRequest {
+  /** Fade out over this many seconds before stopping */
+  fade?: number;
 }
 
 export interface PlayResponse {
@@ -68,14 +313,178 @@ export interface PauseResponse {
   state: 'paused';
 }
 
+export interface ResumeResponse {
+  ok: boolean;
+  state: 'playing';
+  /** Cycle playback resumed from */
+  cycle: number;
+}
+
+export interface RestartResponse {
+  ok: boolean;
+  state: 'playing';
+}
+
 export interface EvaluateRequest {
   code: string;
   name?: string;
   version?: number;
+  /** Hold the change until the next multiple of this many cycles (0 = now) */
+  quantize?: number;
+  /** Crossfade seconds */
+  fade?: number;
 }
 
 export interface EvaluateResponse {
   ok: boolean;
+  /** Cycle at which the new code took over */
+  cycle: number;
+}
+
+export interface LayerAddRequest {
+  slot: string;
+  code: string;
+  name: string;
+  version: number;
+}
+
+export interface LayerToggleRequest {
+  slot: string;
+  on: boolean;
+}
+
+export interface LayersResponse {
+  ok: boolean;
+  state: PlaybackState;
+  layers: Record<string, LayerSlot>;
+}
+
+export interface ReloadSamplesResponse {
+  ok: boolean;
+  banks: string[];
+}
+
+export interface TempoRequest {
+  cps: number;
+  /** Seconds to glide from the current tempo (0 = jump) */
+  ramp?: number;
+}
+
+export interface TempoResponse {
+  ok: boolean;
+  /** Tempo before the change */
+  from: number;
+  cps: number;
+  ramp: number;
+}
+
+/** Any subset of the mixer settings; omitted fields are left as they are */
+export interface VolumeRequest {
+  volume?: number;
+  /** Seconds to glide to the new volume (0 = jump) */
+  ramp?: number;
+  muted?: boolean;
+  ceiling?: number;
+}
+
+export interface VolumeResponse {
+  ok: boolean;
+  mixer: MixerState;
+}
+
+/** Window of the playing pattern to query, in cycles */
+export interface HapsRequest {
+  from: number;
+  to: number;
+}
+
+export interface HapsResponse {
+  ok: boolean;
+  state: PlaybackState;
+  name?: string;
+  version?: number;
+  cycle?: number;
+  cps?: number;
+  /** Events overlapping the window (also those that started before it) */
+  events: SongEvent[];
+  viz: VizRequest | null;
+}
+
+/** Omitted host/port keep the current OSC target */
+export interface OutputRequest {
+  mode: OutputMode;
+  host?: string;
+  port?: number;
+}
+
+export interface OutputResponse {
+  ok: boolean;
+  output: OutputConfig;
+}
+
+export interface RecordStartRequest {
+  /** Absolute path of the WAV file to write (overwritten) */
+  out: string;
+  bitDepth?: 16 | 24;
+}
+
+export interface RecordResponse {
+  ok: boolean;
+  recording: RecordingInfo;
+}
+
+export interface SequenceRequest {
+  name: string;
+  steps: SequenceStep[];
+  /** Start over after the last step instead of finishing */
+  loop?: boolean;
+  quantize?: number;
+  fade?: number;
+  /** Stored on each promoted version */
+  meta?: VersionMeta;
+}
+
+export interface SequenceResponse {
+  ok: boolean;
+  job: SequenceJob;
+}
+
+export interface SequenceStatusResponse {
+  ok: boolean;
+  /** The running job, or the last one to finish (null if none ran yet) */
+  job: SequenceJob | null;
+}
+
+export interface SetlistPlayRequest {
+  setlist: string;
+  /** Entries resolved to a version and its code */
+  steps: Array<SetlistStep & { code: string }>;
+  /** Step index to start at */
+  start?: number;
+  loop?: boolean;
+  /** Crossfade seconds between songs */
+  fade?: number;
+}
+
+export interface SetlistResponse {
+  ok: boolean;
+  job: SetlistJob;
+}
+
+export interface SetlistStatusResponse {
+  ok: boolean;
+  /** The running setlist, or the last one to finish (null if none ran yet) */
+  job: SetlistJob | null;
+}
+
+export interface SetlistSkipRequest {
+  /** Steps to move: 1 = next, -1 = previous */
+  by: number;
+}
+
+export interface SequenceCancelRequest {
+  /** Only cancel if this is the running job */
+  id?: string;
 }
 
 export interface ErrorResponse {
@@ -83,13 +492,82 @@ export interface ErrorResponse {
   error: string;
 }
 
+// ── Event Stream Types (GET /events) ──
+
+export type DaemonEventAction =
+  | 'play'
+  | 'evaluate'
+  | 'pause'
+  | 'resume'
+  | 'restart'
+  | 'stop'
+  | 'layer'
+  | 'tempo'
+  | 'sequence'
+  | 'setlist'
+  | 'volume'
+  | 'record'
+  | 'output';
+
+export interface StateEvent {
+  type: 'state';
+  action: DaemonEventAction;
+  state: PlaybackState;
+  name?: string;
+  version?: number;
+  at: string;
+}
+
+export interface EvalErrorEvent {
+  type: 'error';
+  action: DaemonEventAction;
+  error: string;
+  name?: string;
+  version?: number;
+  at: string;
+}
+
+export interface ValidateEvent {
+  type: 'validate';
+  valid: boolean;
+  error?: string;
+  line?: number;
+  column?: number;
+  at: string;
+}
+
+export interface TickEvent {
+  type: 'tick';
+  state: PlaybackState;
+  cycle: number;
+  name?: string;
+  version?: number;
+  at: string;
+}
+
+export type DaemonEvent = StateEvent | EvalErrorEvent | ValidateEvent | TickEvent;
+
 // ── Validation Types ──
 
+/** Lint warning: a call to a function or method Strudel doesn't define, or a sound that isn't loaded */
+export interface LintIssue {
+  /** e.g. "Unknown method .reverb()", "Unknown sound 'gm_piano'" */
+  message: string;
+  /** What to write instead, when there is a likely candidate */
+  fix?: string;
+  /** Why, for the known mistakes */
+  note?: string;
+  line: number;
+  column: number;
+}
+
 export interface ValidationResult {
   valid: boolean;
   error?: string;
   line?: number;
   column?: number;
+  /** Unknown functions, methods, sounds and banks — they don't make the code invalid */
+  warnings?: LintIssue[];
 }
 
 export interface ValidateResponse {
@@ -98,14 +576,62 @@ export interface ValidateResponse {
   error?: string;
   line?: number;
   column?: number;
+  warnings?: LintIssue[];
 }
 
 // ── Engine Interface ──
 
+/** How a new pattern replaces the one that is playing */
+export interface SwapOptions {
+  /** Swap at the next multiple of this many cycles (0 = immediately) */
+  quantize?: number;
+  /** Crossfade seconds from the old pattern (or fade in from silence) */
+  fade?: number;
+}
+
+/** Resolves once the new pattern is audible */
+export interface SwapResult {
+  cycle: number;
+  /** Playback was paused before the swap finished: the change was applied at once and stays paused */
+  paused?: boolean;
+}
+
+/** A recording in progress; stop() finalizes the file */
+export interface Recorder {
+  info: () => RecordingInfo;
+  stop: () => Promise<RecordingInfo>;
+}
+
 export interface StrudelEngine {
-  evaluate: (code: string) => Promise<void>;
+  evaluate: (code: string, options?: SwapOptions) => Promise<SwapResult>;
+  /** Stack several codes into one pattern; events are tagged with each layer's name */
+  evaluateLayers: (layers: { name: string; code: string }[], options?: SwapOptions) => Promise<SwapResult>;
   validate: (code: string) => ValidationResult;
   stop: () => void;
   pause: () => void;
   start: () => void;
+  /** Ramp the master level down to silence; call stop() afterwards */
+  fadeOut: (seconds: number) => Promise<void>;
+  reloadSamples: () => Promise<string[]>;
+  getCycle: () => number;
+  getCps: () => number;
+  /** Change tempo in place, optionally gliding over `rampSeconds` */
+  setCps: (cps: number, rampSeconds?: number) => void;
+  getMixer: () => MixerState;
+  setVolume: (volume: number, rampSeconds?: number) => void;
+  setMuted: (muted: boolean) => void;
+  /** Limiter ceiling in dBFS (<= 0) */
+  setCeiling: (db: number) => void;
+  /**
+   * Stream the master output (after the limiter) to a WAV file. `onFull` is
+   * called when the file hits the WAV size limit and capture has stopped.
+   */
+  record: (path: string, bitDepth?: 16 | 24, onFull?: () => void) => Promise<Recorder>;
+  getOutput: () => OutputConfig;
+  /** Switch outputs; the OSC socket is opened before the old one is dropped */
+  setOutput: (config: OutputConfig) => Promise<void>;
+  /** Events of the playing pattern that overlap [from, to) */
+  queryEvents: (from: number, to: number) => SongEvent[];
+  /** `.pianoroll()` / `.punchcard()` request of the playing code, if any */
+  getViz: () => VizRequest | null;
 }
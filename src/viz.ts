@@ -0,0 +1,250 @@
+/**
+ * Terminal visualizer — draws the events of the playing pattern as ANSI text,
+ * one lane per layer, with time running left to right past a fixed playhead.
+ *
+ * - pianoroll: a row per pitch across each lane's range (unpitched sounds below)
+ * - punchcard: only the rows a lane actually uses, labelled — a drum-machine grid
+ * - meter:     a level bar per lane from the gain of what is sounding
+ */
+
+import { C } from './constants.js';
+import type { HapsResponse, SongEvent, VizMode } from './types.js';
+
+export const VIZ_MODES: VizMode[] = ['pianoroll', 'punchcard', 'meter'];
+
+/** Part of the timeline on screen, in cycles */
+export interface VizWindow {
+  cycles: number;
+  /** Playhead position, 0 (left edge) to 1 (right edge) */
+  playhead: number;
+}
+
+/** Same defaults as Strudel's own .pianoroll() */
+export const DEFAULT_VIZ_WINDOW: VizWindow = { cycles: 4, playhead: 0.5 };
+
+const LANE_COLORS = [C.cyan, C.magenta, C.yellow, C.green, C.blue, C.red];
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const MAX_LABEL = 16;
+/** Meter levels fall by this factor per frame once nothing louder is sounding */
+const METER_DECAY = 0.85;
+
+interface Cell {
+  ch: string;
+  style: string;
+}
+
+/** A row key: a MIDI pitch, or the name of an unpitched sound */
+type Key = number | string;
+
+export function vizRange(cycle: number, window: VizWindow): { from: number; to: number } {
+  const from = cycle - window.cycles * window.playhead;
+  return { from, to: from + window.cycles };
+}
+
+function noteName(pitch: number): string {
+  const m = Math.round(pitch);
+  return `${NOTE_NAMES[((m % 12) + 12) % 12]}${Math.floor(m / 12) - 1}`;
+}
+
+function keyOf(event: SongEvent): Key {
+  if (event.pitch != null) return Math.round(event.pitch);
+  return String(event.value.s ?? event.value.value ?? '?');
+}
+
+function keyLabel(key: Key): string {
+  return typeof key === 'number' ? noteName(key) : key;
+}
+
+function levelOf(event: SongEvent): number {
+  const gain = typeof event.value.gain === 'number' ? event.value.gain : 1;
+  const velocity = typeof event.value.velocity === 'number' ? event.value.velocity : 1;
+  return Math.max(0, Math.min(1, gain * velocity));
+}
+
+/** Pad or cut plain text to exactly `width` columns */
+function fit(text: string, width: number): string {
+  return text.length > width ? text.slice(0, width) : text.padEnd(width);
+}
+
+function paint(cells: Cell[]): string {
+  let out = '';
+  let style = '';
+  for (const cell of cells) {
+    if (cell.style !== style) {
+      out += C.reset + cell.style;
+      style = cell.style;
+    }
+    out += cell.ch;
+  }
+  return out + C.reset;
+}
+
+/**
+ * Share `available` rows between lanes that would each like `wants[i]` rows
+ * (at least one each). Lanes that don't fit at all get 0.
+ */
+function allocateRows(wants: number[], available: number): number[] {
+  const total = wants.reduce((a, b) => a + b, 0);
+  if (total <= available) return wants;
+  const rows = wants.map(() => 0);
+  let left = available;
+  for (let i = 0; i < wants.length && left > 0; i++) {
+    rows[i] = 1;
+    left--;
+  }
+  // Hand out the rest in proportion to what each lane asked for beyond its first row
+  const extra = wants.map((w, i) => (rows[i] ? w - 1 : 0));
+  const extraTotal = extra.reduce((a, b) => a + b, 0);
+  if (extraTotal > 0 && left > 0) {
+    const shares = extra.map((e) => Math.floor((e / extraTotal) * left));
+    shares.forEach((share, i) => (rows[i] += share));
+  }
+  return rows;
+}
+
+/**
+ * Create a renderer. It remembers lane colors and meter levels between frames.
+ */
+export function createVizRenderer() {
+  const seen: string[] = [];
+  const levels = new Map<string, number>();
+
+  return (snapshot: HapsResponse, mode: VizMode, window: VizWindow, width: number, height: number): string[] => {
+    const lines: string[] = [];
+    const cycle = snapshot.cycle ?? 0;
+    const { from, to } = vizRange(cycle, window);
+
+    // ── Header ──
+    const icon =
+      snapshot.state === 'playing'
+        ? `${C.green}▶${C.reset}`
+        : snapshot.state === 'paused'
+          ? `${C.yellow}⏸${C.reset}`
+          : `${C.dim}■${C.reset}`;
+    const song = snapshot.name
+      ? ` ${C.cyan}${snapshot.name}${C.reset}${snapshot.version ? ` ${C.dim}(v${snapshot.version})${C.reset}` : ''}`
+      : '';
+    const bpm = snapshot.cps ? ` · ${Math.round(snapshot.cps * 240 * 100) / 100} bpm` : '';
+    const source = snapshot.viz?.mode === mode ? ` ${C.dim}(from code)${C.reset}` : '';
+    const position = `${C.dim}· cycle ${cycle.toFixed(2)}${bpm} ·${C.reset}`;
+    lines.push(`${icon}${song} ${position} ${C.bold}${mode}${C.reset}${source}`);
+
+    // ── Lanes ──
+    // Sorted by name ($0, $1, …, then named layers) so lanes keep their place as
+    // events scroll in and out; colors stay with the lane for the whole session
+    const lane = (e: SongEvent) => e.layer ?? 'main';
+    const lanes = [...new Set(snapshot.events.map(lane))].sort((a, b) => a.localeCompare(b, 'en', { numeric: true }));
+    for (const name of lanes) {
+      if (!seen.includes(name)) seen.push(name);
+    }
+
+    const keysByLane = lanes.map((name) => {
+      const events = snapshot.events.filter((e) => lane(e) === name);
+      const pitches = [...new Set(events.filter((e) => e.pitch != null).map(keyOf) as number[])].sort((a, b) => b - a);
+      const sounds = [...new Set(events.filter((e) => e.pitch == null).map(keyOf) as string[])].sort();
+      if (mode === 'pianoroll' && pitches.length > 0) {
+        // The full range between the lowest and highest note, highest on top
+        const range: number[] = [];
+        for (let p = pitches[0]; p >= pitches[pitches.length - 1]; p--) range.push(p);
+        return [...range, ...sounds] as Key[];
+      }
+      return [...pitches, ...sounds] as Key[];
+    });
+
+    // Room for "<lane> <key>" (just the lane for meters)
+    const labelWidths = lanes.map((name, i) => {
+      if (mode === 'meter') return name.length;
+      return name.length + 1 + Math.max(0, ...keysByLane[i].map((k) => keyLabel(k).length));
+    });
+    const labelWidth = Math.min(MAX_LABEL, Math.max(4, ...labelWidths));
+    const gridWidth = Math.max(8, width - labelWidth - 1);
+    const col = (c: number) => Math.floor(((c - from) / (to - from)) * gridWidth);
+    const playheadCol = Math.min(gridWidth - 1, col(cycle));
+
+    // ── Ruler ──
+    const ruler: Cell[] = Array.from({ length: gridWidth }, () => ({ ch: ' ', style: C.dim }));
+    for (let c = Math.ceil(from); c < to; c++) {
+      const x = col(c);
+      const label = `┆${c}`;
+      for (let k = 0; k < label.length && x + k < gridWidth; k++) ruler[x + k] = { ch: label[k], style: C.dim };
+    }
+    ruler[playheadCol] = { ch: '▼', style: C.bold };
+    lines.push(' '.repeat(labelWidth + 1) + paint(ruler));
+
+    // One line stays free for the footer, one for "+N more"
+    const available = height - lines.length - 2;
+    if (snapshot.state === 'stopped' || lanes.length === 0) {
+      const message = snapshot.state === 'stopped' ? 'Nothing is playing.' : 'No events in view.';
+      lines.push(`${C.dim}${message}${C.reset}`);
+    } else if (mode === 'meter') {
+      const rows = Math.min(lanes.length, available);
+      lanes.slice(0, rows).forEach((name) => {
+        const sounding = snapshot.events.filter((e) => lane(e) === name && e.begin <= cycle && e.end > cycle);
+        const now = Math.max(0, ...sounding.map(levelOf));
+        const level = Math.max(now, (levels.get(name) ?? 0) * METER_DECAY);
+        levels.set(name, level);
+
+        const filled = Math.round(level * gridWidth);
+        const cells: Cell[] = Array.from({ length: gridWidth }, (_, x) => {
+          if (x >= filled) return { ch: '·', style: C.dim };
+          const at = x / gridWidth;
+          return { ch: '█', style: at > 0.9 ? C.red : at > 0.7 ? C.yellow : C.green };
+        });
+        const color = LANE_COLORS[seen.indexOf(name) % LANE_COLORS.length];
+        lines.push(`${color}${fit(name, labelWidth)}${C.reset} ${paint(cells)}`);
+      });
+      if (rows < lanes.length) lines.push(`${C.dim}+${lanes.length - rows} more${C.reset}`);
+    } else {
+      const rows = allocateRows(keysByLane.map((keys) => Math.max(1, keys.length)), available);
+      lanes.forEach((name, i) => {
+        const h = rows[i];
+        if (h === 0) return;
+        const keys = keysByLane[i];
+        const color = LANE_COLORS[seen.indexOf(name) % LANE_COLORS.length];
+        // With more keys than rows, neighbouring keys share a row
+        const rowOf = (key: Key) => Math.floor((keys.indexOf(key) * h) / keys.length);
+
+        const grid: Cell[][] = Array.from({ length: h }, () =>
+          Array.from({ length: gridWidth }, (_, x) => {
+            if (x === playheadCol) return { ch: '│', style: C.dim };
+            return { ch: ' ', style: '' };
+          }),
+        );
+        for (let c = Math.ceil(from); c < to; c++) {
+          const x = col(c);
+          if (x !== playheadCol) grid.forEach((row) => (row[x] = { ch: '┆', style: C.dim }));
+        }
+
+        for (const event of snapshot.events.filter((e) => lane(e) === name)) {
+          const row = grid[rowOf(keyOf(event))];
+          const x0 = col(event.begin);
+          const x1 = Math.max(x0 + 1, col(event.end));
+          const style =
+            event.begin <= cycle && event.end > cycle
+              ? C.bold + color
+              : event.end <= cycle
+                ? C.dim + color
+                : color;
+          for (let x = Math.max(0, x0); x < Math.min(gridWidth, x1); x++) {
+            row[x] = { ch: x === x0 ? '█' : '━', style };
+          }
+        }
+
+        grid.forEach((row, r) => {
+          // Lane name on its first row, each row's key right-aligned after it
+          const rowKeys = keys.filter((k) => rowOf(k) === r);
+          const key = rowKeys.length > 0 ? keyLabel(rowKeys[0]).slice(0, labelWidth - 1) : '';
+          const head = fit(r === 0 ? name : '', labelWidth - key.length - 1);
+          lines.push(`${color}${head}${C.reset} ${C.dim}${key}${C.reset} ${paint(row)}`);
+        });
+      });
+      const shown = rows.filter((h) => h > 0).length;
+      if (shown < lanes.length) lines.push(`${C.dim}+${lanes.length - shown} more${C.reset}`);
+    }
+
+    // ── Footer ──
+    while (lines.length < height - 1) lines.push('');
+    lines.push(`${C.dim}[m] mode  [+/-] zoom  [q] quit${C.reset}`);
+    return lines.slice(0, height);
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Minimal PCM WAV encoder (16/24-bit integer, interleaved).
+ */
+
+export type WavBitDepth = 16 | 24;
+
+export const HEADER_SIZE = 44;
+/** RIFF sizes are 32-bit: the chunk size (header after its first 8 bytes + data) must fit */
+export const MAX_WAV_DATA_BYTES = 0xffffffff - (HEADER_SIZE - 8);
+
+/**
+ * Build the 44-byte RIFF/WAVE header for `dataBytes` bytes of PCM data.
+ */
+export function wavHeader(
+  dataBytes: number,
+  sampleRate: number,
+  channels: number,
+  bitDepth: WavBitDepth,
+): Buffer {
+  if (dataBytes > MAX_WAV_DATA_BYTES) {
+    throw new Error(`Too much audio for one WAV file (${dataBytes} bytes, the format's limit is 4 GB).`);
+  }
+  const blockAlign = channels * (bitDepth / 8);
+  const header = Buffer.alloc(HEADER_SIZE);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk length
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitDepth, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+
+  return header;
+}
+
+/**
+ * Interleave float channel data ([-1, 1]) into little-endian integer PCM.
+ */
+export function encodePcm(channels: Float32Array[], bitDepth: WavBitDepth): Buffer {
+  const frames = channels[0]?.length ?? 0;
+  const bytes = bitDepth / 8;
+  const out = Buffer.alloc(frames * channels.length * bytes);
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+
+  let offset = 0;
+  for (let i = 0; i < frames; i++) {
+    for (const data of channels) {
+      const s = Math.max(-1, Math.min(1, data[i]));
+      const v = Math.round(s * max);
+      if (bitDepth === 16) {
+        out.writeInt16LE(v, offset);
+      } else {
+        out.writeIntLE(v, offset, 3);
+      }
+      offset += bytes;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Encode a complete WAV file from float channel data.
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16,
+): Buffer {
+  const pcm = encodePcm(channels, bitDepth);
+  return Buffer.concat([wavHeader(pcm.length, sampleRate, channels.length, bitDepth), pcm]);
+}
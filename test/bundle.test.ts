@@ -0,0 +1,71 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// The store lives under HOME, read once when constants.ts loads
+process.env.HOME = await mkdtemp(join(tmpdir(), 'strudel-cli-test-'));
+const storage = await import('../src/storage.js');
+
+after(() => rm(process.env.HOME!, { recursive: true, force: true }));
+
+test('parseBundle rejects files that are not bundles this CLI can read', () => {
+  assert.throws(() => storage.parseBundle({ songs: [] }), /Not a song bundle/);
+  assert.throws(
+    () => storage.parseBundle({ format: storage.BUNDLE_FORMAT, version: 99, songs: [] }),
+    /Unsupported bundle version 99/,
+  );
+  assert.throws(
+    () => storage.parseBundle({ format: storage.BUNDLE_FORMAT, version: 1, songs: [{ name: 'x', versions: [] }] }),
+    /song 'x' has no versions/,
+  );
+});
+
+test('an exported bundle imports back as the same history', async () => {
+  await storage.makeSong('loop', 's("bd")');
+  await storage.appendVersion('loop', 's("bd sd")', { message: 'snare' });
+  const bundle = storage.parseBundle(JSON.parse(JSON.stringify(await storage.exportSongs(['loop']))));
+  assert.equal(bundle.songs[0].versions.length, 2);
+
+  assert.deepEqual(await storage.importBundle(bundle, 'skip'), [
+    { name: 'loop', as: 'loop', status: 'skipped', added: 0 },
+  ]);
+  assert.deepEqual(await storage.importBundle(bundle, 'rename'), [
+    { name: 'loop', as: 'loop-2', status: 'renamed', added: 2 },
+  ]);
+  const copy = await storage.logSong('loop-2');
+  assert.deepEqual(
+    copy.map((v) => [v.version, v.code, v.message]),
+    [
+      [2, 's("bd sd")', 'snare'],
+      [1, 's("bd")', undefined],
+    ],
+  );
+});
+
+test('merging appends only the versions the song lacks and remaps parents', async () => {
+  const bundle = await storage.exportSongs(['loop']);
+  // Both sides move on from v2: locally v3, in the bundle a version based on v1
+  await storage.appendVersion('loop', 'local edit');
+  bundle.songs[0].versions.push({ code: 'remote edit', createdAt: '2030-01-01T00:00:00.000Z', parent: 1 });
+  bundle.songs[0].versions.push({ code: 'remote edit 2', createdAt: '2030-01-02T00:00:00.000Z', parent: 3 });
+
+  assert.deepEqual(await storage.importBundle(bundle, 'merge'), [
+    { name: 'loop', as: 'loop', status: 'merged', added: 2 },
+  ]);
+  const history = (await storage.logSong('loop')).reverse();
+  assert.deepEqual(
+    history.map((v) => [v.code, v.parent]),
+    [
+      ['s("bd")', undefined],
+      ['s("bd sd")', 1],
+      ['local edit', 2],
+      ['remote edit', 1],
+      ['remote edit 2', 4],
+    ],
+  );
+
+  // Merging the same bundle again changes nothing
+  assert.equal((await storage.importBundle(bundle, 'merge'))[0].added, 0);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines, diffHunks, diffStat } from '../src/diff.js';
+
+test('diffLines marks kept, removed and added lines with their line numbers', () => {
+  const lines = diffLines('a\nb\nc', 'a\nB\nc\nd');
+  assert.deepEqual(lines, [
+    { op: ' ', text: 'a', oldLine: 1, newLine: 1 },
+    { op: '-', text: 'b', oldLine: 2 },
+    { op: '+', text: 'B', newLine: 2 },
+    { op: ' ', text: 'c', oldLine: 3, newLine: 3 },
+    { op: '+', text: 'd', newLine: 4 },
+  ]);
+  assert.deepEqual(diffStat(lines), { added: 2, removed: 1 });
+});
+
+test('diffLines of identical code has no changes', () => {
+  const lines = diffLines('s("bd")\n.gain(1)', 's("bd")\n.gain(1)');
+  assert.ok(lines.every((l) => l.op === ' '));
+  assert.deepEqual(diffHunks(lines), []);
+});
+
+test('diffHunks splits changes far apart and keeps context around each', () => {
+  const a = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+  const b = [...a];
+  b[1] = 'changed 2';
+  b[17] = 'changed 18';
+  const hunks = diffHunks(diffLines(a.join('\n'), b.join('\n')));
+  assert.equal(hunks.length, 2);
+  assert.deepEqual(
+    hunks.map((h) => [h.oldStart, h.oldCount, h.newStart, h.newCount]),
+    [
+      [1, 5, 1, 5],
+      [15, 6, 15, 6],
+    ],
+  );
+});
+
+test('diffHunks merges changes whose context overlaps', () => {
+  const a = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+  const b = [...a];
+  b[2] = 'x';
+  b[8] = 'y';
+  assert.equal(diffHunks(diffLines(a.join('\n'), b.join('\n'))).length, 1);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nearestName, lintCode, lintSounds, formatLintIssue } from '../src/lint.js';
+
+// The lint checks names against what Strudel has registered on globalThis
+const core = await import('@strudel/core');
+const mini = await import('@strudel/mini');
+await core.evalScope(core, mini);
+
+test('nearestName suggests close names only', () => {
+  assert.equal(nearestName('fsat', ['fast', 'slow']), 'fast');
+  assert.equal(nearestName('GAIN', ['gain']), 'gain');
+  assert.equal(nearestName('xyzzy', ['fast', 'slow']), null);
+});
+
+test('lintCode flags unknown functions and pattern methods with a fix', () => {
+  const issues = lintCode('sound("bd sd").fsat(2)\ns("hh*4")\n  .reverb(0.4)\nnotee("c3")');
+  assert.deepEqual(
+    issues?.map((i) => [i.line, i.message, i.fix]),
+    [
+      [1, 'Unknown method .fsat()', '.fast()'],
+      [3, 'Unknown method .reverb()', '.room()'],
+      [4, 'Unknown function notee()', 'note()'],
+    ],
+  );
+  assert.equal(
+    formatLintIssue(issues![1]),
+    'Unknown method .reverb() — use .room() (reverb send 0-1; .roomsize() sets the size)',
+  );
+});
+
+test('lintCode leaves declared names and non-pattern values alone', () => {
+  assert.deepEqual(lintCode('const fx = (p) => p.fast(2)\nconst d = new Date()\nfx(s("bd")).gain(d.getSeconds())'), []);
+  assert.equal(lintCode('s("bd"'), null);
+});
+
+test('lintSounds flags sounds and banks missing from the sound map, but not rests or sample numbers', () => {
+  const sounds = {
+    bd: {},
+    sd: {},
+    hh: {},
+    rolandtr909_bd: { data: { samples: ['https://example.com/RolandTR909/bd.wav'] } },
+  };
+  const issues = lintSounds('s("bd sdd ~ hh:2").bank("RolandTR9O9")', sounds);
+  assert.deepEqual(
+    issues?.map((i) => [i.message, i.fix]),
+    [
+      ["Unknown sound 'sdd'", 'sd'],
+      ["Unknown bank 'RolandTR9O9'", 'RolandTR909'],
+    ],
+  );
+});
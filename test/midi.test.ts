@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { drumKey, encodeMidi } from '../src/midi.js';
+
+/** Track chunks of an SMF, after the 14-byte header */
+function trackData(smf: Buffer): Buffer[] {
+  const tracks: Buffer[] = [];
+  for (let at = 14; at < smf.length; ) {
+    assert.equal(smf.toString('ascii', at, at + 4), 'MTrk');
+    const length = smf.readUInt32BE(at + 4);
+    tracks.push(smf.subarray(at + 8, at + 8 + length));
+    at += 8 + length;
+  }
+  return tracks;
+}
+
+test('drumKey maps drum names, banked and numbered, to GM percussion', () => {
+  assert.equal(drumKey('bd'), 36);
+  assert.equal(drumKey('RolandTR909_sd'), 38);
+  assert.equal(drumKey('hh27'), 42);
+  assert.equal(drumKey('piano'), null);
+});
+
+test('encodeMidi writes a tempo track plus one track per layer', () => {
+  const { smf, tracks, skipped } = encodeMidi(
+    {
+      cps: 0.5,
+      layers: ['bass', 'drums'],
+      events: [
+        { begin: 0, end: 0.5, layer: 'bass', pitch: 36, value: { note: 36, gain: 0.5 } },
+        { begin: 0, end: 0.25, layer: 'drums', pitch: null, value: { s: 'bd' } },
+        { begin: 0.5, end: 0.75, layer: 'drums', pitch: null, value: { s: 'pad' } },
+      ],
+    },
+    { name: 'demo' },
+  );
+
+  assert.equal(smf.toString('ascii', 0, 4), 'MThd');
+  assert.equal(smf.readUInt16BE(8), 1);
+  assert.equal(smf.readUInt16BE(10), 3);
+  assert.equal(smf.readUInt16BE(12), 480);
+  assert.deepEqual(tracks, [
+    { layer: 'bass', notes: 1 },
+    { layer: 'drums', notes: 1 },
+  ]);
+  assert.equal(skipped, 1);
+
+  const [conductor, bass, drums] = trackData(smf);
+  // 0.5 cps, four beats a cycle: 2 beats per second = 500000 µs per beat
+  assert.ok(conductor.includes(Buffer.from([0xff, 0x51, 0x03, 0x07, 0xa1, 0x20])));
+  // Half a cycle is 960 ticks (VLQ 0x87 0x40); gain 0.5 is velocity 64
+  assert.ok(bass.includes(Buffer.from([0x00, 0x90, 36, 64, 0x87, 0x40, 0x80, 36, 0])));
+  // Drums go to channel 10
+  assert.ok(drums.includes(Buffer.from([0x00, 0x99, 36, 127])));
+});
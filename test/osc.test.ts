@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeMessage, encodeBundle, dirtControls } from '../src/osc.js';
+
+test('encodeMessage pads strings and tags ints, floats and strings', () => {
+  const msg = encodeMessage('/dirt/play', ['s', 'bd', 'n', 3, 'gain', 0.5]);
+  const expected = Buffer.concat([
+    Buffer.from('/dirt/play\0\0', 'latin1'),
+    Buffer.from(',sssisf\0', 'latin1'),
+    Buffer.from('s\0\0\0', 'latin1'),
+    Buffer.from('bd\0\0', 'latin1'),
+    Buffer.from('n\0\0\0', 'latin1'),
+    Buffer.from([0, 0, 0, 3]),
+    Buffer.from('gain\0\0\0\0', 'latin1'),
+    Buffer.from([0x3f, 0, 0, 0]),
+  ]);
+  assert.deepEqual(msg, expected);
+  assert.equal(msg.length % 4, 0);
+});
+
+test('encodeBundle time-tags in NTP seconds and size-prefixes each message', () => {
+  const msg = encodeMessage('/a', [1]);
+  const bundle = encodeBundle(1500, [msg]);
+  assert.equal(bundle.subarray(0, 8).toString('latin1'), '#bundle\0');
+  assert.equal(bundle.readUInt32BE(8), 2208988800 + 1);
+  assert.equal(bundle.readUInt32BE(12), 2 ** 31);
+  assert.equal(bundle.readInt32BE(16), msg.length);
+  assert.deepEqual(bundle.subarray(20), msg);
+});
+
+test('dirtControls adds timing, shifts notes and folds the bank into the sound', () => {
+  const hap = {
+    value: { s: 'bd', bank: 'RolandTR909', note: 'c4', roomsize: 2, cut: true, fn: () => 0 },
+    ensureObjectValue() {},
+    wholeOrPart: () => ({ begin: 4.5 }),
+    duration: 0.25,
+  };
+  const controls = dirtControls(hap, 0.5, (note) => (note === 'c4' ? 60 : NaN));
+  assert.deepEqual(controls, {
+    cps: 0.5,
+    cycle: 4.5,
+    delta: 0.5,
+    s: 'RolandTR909_bd',
+    note: 0,
+    size: 2,
+    cut: 1,
+  });
+});
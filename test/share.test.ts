@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { codeToShareUrl, codeFromShareUrl } from '../src/share.js';
+
+test('share links round-trip code, including non-ASCII text', () => {
+  const code = '// 비트\nsetcpm(30)\n$: s("bd*2 [~ sd]").bank("RolandTR909")';
+  const url = codeToShareUrl(code);
+  assert.match(url, /^https:\/\/strudel\.cc\/#/);
+  assert.equal(codeFromShareUrl(url), code);
+  assert.equal(codeFromShareUrl(url.split('#')[1]), code);
+});
+
+test('links without code in them are rejected with a reason', () => {
+  assert.throws(() => codeFromShareUrl('https://strudel.cc/?abc123'), /short link/);
+  assert.throws(() => codeFromShareUrl('https://strudel.cc/'), /has no #code part/);
+  assert.throws(() => codeFromShareUrl('https://strudel.cc/#%%%'), /Could not decode/);
+  assert.throws(() => codeFromShareUrl('https://strudel.cc/#' + Buffer.from([0xff, 0xfe]).toString('base64')), /Could not decode/);
+});
@@ -0,0 +1,75 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, readdir, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// The store lives under HOME, read once when constants.ts loads
+process.env.HOME = await mkdtemp(join(tmpdir(), 'strudel-cli-test-'));
+const root = join(process.env.HOME, '.strudel-cli');
+const storage = await import('../src/storage.js');
+
+after(() => rm(process.env.HOME!, { recursive: true, force: true }));
+
+test('a legacy songs.json is migrated into song folders on first use', async () => {
+  await mkdir(root, { recursive: true });
+  await writeFile(
+    join(root, 'songs.json'),
+    JSON.stringify({
+      songs: {
+        'My Song': {
+          versions: [
+            { code: 's("bd")', createdAt: '2024-01-01T00:00:00.000Z' },
+            { code: 's("bd sd")', createdAt: '2024-01-02T00:00:00.000Z', message: 'snare' },
+          ],
+        },
+      },
+    }),
+  );
+
+  assert.deepEqual(await storage.listSongs(), ['My Song']);
+  const detail = await storage.detailSong('My Song');
+  assert.equal(detail.code, 's("bd sd")');
+  assert.equal(detail.totalVersions, 2);
+  assert.equal(detail.message, 'snare');
+  assert.equal((await storage.detailSong('My Song', 1)).code, 's("bd")');
+  assert.ok(existsSync(join(root, 'songs.json.migrated')));
+  assert.ok(!existsSync(join(root, 'songs.json')));
+  assert.ok(existsSync(join(root, 'songs', 'my-song', 'versions', '000002.json')));
+});
+
+test('concurrent appends each get their own version number', async () => {
+  await storage.makeSong('busy', 'v1');
+  const results = await Promise.all(
+    Array.from({ length: 8 }, (_, i) => storage.appendVersion('busy', `v${i + 2}`)),
+  );
+  assert.deepEqual(
+    results.map((r) => r.version).sort((a, b) => a - b),
+    [2, 3, 4, 5, 6, 7, 8, 9],
+  );
+  const summary = (await storage.listSongSummaries()).find((s) => s.name === 'busy');
+  assert.equal(summary?.versions, 9);
+  assert.equal((await storage.logSong('busy')).length, 9);
+});
+
+test('an append waiting on a deleted song reports it as not found', async () => {
+  await storage.makeSong('doomed', 'v1');
+  const results = await Promise.allSettled([storage.deleteSong('doomed'), storage.appendVersion('doomed', 'v2')]);
+  assert.equal(results[0].status, 'fulfilled');
+  const append = results[1];
+  if (append.status === 'rejected') {
+    assert.match(append.reason.message, /Song 'doomed' not found/);
+  }
+  assert.ok(!(await storage.listSongs()).includes('doomed'));
+  // Neither the song folder nor a stray lock is left behind
+  const dirs = await readdir(join(root, 'songs'));
+  assert.ok(!dirs.some((d) => d.startsWith('doomed')));
+});
+
+test('a lost index is rebuilt from the song folders', async () => {
+  await rm(join(root, 'songs', 'index.json'));
+  const names = await storage.listSongs();
+  assert.deepEqual(names.sort(), ['My Song', 'busy']);
+  assert.equal((await storage.detailSong('busy')).totalVersions, 9);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HEADER_SIZE, MAX_WAV_DATA_BYTES, encodePcm, encodeWav, wavHeader } from '../src/wav.js';
+
+test('encodeWav writes a PCM header and interleaved, clipped samples', () => {
+  const left = new Float32Array([0, 1, -2]);
+  const right = new Float32Array([0.5, -1, 0]);
+  const wav = encodeWav([left, right], 48000);
+
+  assert.equal(wav.length, HEADER_SIZE + 3 * 2 * 2);
+  assert.equal(wav.toString('ascii', 0, 4), 'RIFF');
+  assert.equal(wav.readUInt32LE(4), wav.length - 8);
+  assert.equal(wav.readUInt16LE(22), 2);
+  assert.equal(wav.readUInt32LE(24), 48000);
+  assert.equal(wav.readUInt32LE(28), 48000 * 4);
+  assert.equal(wav.readUInt32LE(40), 12);
+  const samples = Array.from({ length: 6 }, (_, i) => wav.readInt16LE(HEADER_SIZE + i * 2));
+  assert.deepEqual(samples, [0, 16384, 32767, -32767, -32767, 0]);
+});
+
+test('24-bit PCM uses three bytes per sample', () => {
+  const pcm = encodePcm([new Float32Array([1, -1])], 24);
+  assert.equal(pcm.length, 6);
+  assert.equal(pcm.readIntLE(0, 3), 0x7fffff);
+  assert.equal(pcm.readIntLE(3, 3), -0x7fffff);
+});
+
+test('wavHeader stops at the 4 GB RIFF limit', () => {
+  assert.equal(wavHeader(MAX_WAV_DATA_BYTES, 44100, 2, 16).readUInt32LE(4), 0xffffffff);
+  assert.throws(() => wavHeader(MAX_WAV_DATA_BYTES + 1, 44100, 2, 16), /Too much audio for one WAV file/);
+});